@@ -0,0 +1,189 @@
+// Adverse selection detector - marks fills out against the reference-derived fair price
+// markout_bps = dir * (fair_at_horizon - fill_price) / fill_price * 10000 (dir: +1 buy, -1 sell)
+// A fill is toxic when any horizon marks out below -toxicMarkoutBps
+// fair_at_horizon is the fair price prevailing at fill time + horizon, looked up
+// in a short price history, so sparse updates do not mark every horizon alike
+
+import { log } from "../../utils/logger.js";
+
+export interface AdverseSelectionConfig {
+	readonly horizonsMs: readonly number[]; // Markout horizons (e.g. 1s, 5s)
+	readonly toxicMarkoutBps: number; // Markout below -this is toxic
+	readonly window: number; // Recent marked-out fills considered
+	readonly toxicRatio: number; // Toxic fraction of the window that triggers protection
+	readonly spreadMultiplier: number; // Spread multiplier while triggered (1 = off)
+	readonly sideCooldown: boolean; // Stop quoting the toxic side while triggered
+	readonly cooldownMs: number; // Protection duration after a trigger
+}
+
+interface PendingFill {
+	side: "bid" | "ask";
+	price: number;
+	time: number;
+	markouts: number[]; // Markout per completed horizon (bps)
+	isToxic: boolean;
+}
+
+interface FairSample {
+	time: number;
+	fair: number;
+}
+
+interface MarkedFill {
+	side: "bid" | "ask";
+	markoutBps: number; // Worst markout across horizons
+	isToxic: boolean;
+}
+
+export class AdverseSelectionMonitor {
+	private pending: PendingFill[] = [];
+	private history: FairSample[] = []; // Oldest first, back to the oldest pending fill
+	private recent: MarkedFill[] = [];
+	private widenUntil = 0;
+	private cooldownUntil = { bid: 0, ask: 0 };
+	private readonly horizons: number[];
+
+	constructor(
+		private readonly config: AdverseSelectionConfig,
+		private readonly label: string = "",
+	) {
+		this.horizons = [...config.horizonsMs].sort((a, b) => a - b);
+	}
+
+	recordFill(side: "bid" | "ask", price: number): void {
+		if (this.horizons.length === 0 || price <= 0) return;
+		this.pending.push({
+			side,
+			price,
+			time: Date.now(),
+			markouts: [],
+			isToxic: false,
+		});
+	}
+
+	// Feed the current fair price; completes markouts whose horizon elapsed
+	onPrice(fair: number): void {
+		if (fair <= 0) return;
+		const now = Date.now();
+		this.history.push({ time: now, fair });
+		this.pruneHistory(now);
+		if (this.pending.length === 0) return;
+		const finalHorizon = this.horizons[this.horizons.length - 1];
+
+		const stillPending: PendingFill[] = [];
+		for (const fill of this.pending) {
+			const elapsed = now - fill.time;
+			while (
+				fill.markouts.length < this.horizons.length &&
+				elapsed >= this.horizons[fill.markouts.length]
+			) {
+				const dir = fill.side === "bid" ? 1 : -1;
+				const fairAt = this.fairAt(
+					fill.time + this.horizons[fill.markouts.length],
+				);
+				const markoutBps = ((dir * (fairAt - fill.price)) / fill.price) * 10000;
+				fill.markouts.push(markoutBps);
+				if (markoutBps < -this.config.toxicMarkoutBps) {
+					fill.isToxic = true;
+				}
+			}
+
+			if (fill.isToxic || elapsed >= finalHorizon) {
+				this.complete(fill);
+			} else {
+				stillPending.push(fill);
+			}
+		}
+		this.pending = stillPending;
+	}
+
+	// Fair price prevailing at time (last sample at or before it)
+	private fairAt(time: number): number {
+		let fair = this.history[0].fair;
+		for (const sample of this.history) {
+			if (sample.time > time) break;
+			fair = sample.fair;
+		}
+		return fair;
+	}
+
+	// Keep one sample before the oldest pending fill as its prevailing price
+	private pruneHistory(now: number): void {
+		const keepFrom = this.pending[0]?.time ?? now;
+		let drop = 0;
+		while (
+			drop + 1 < this.history.length &&
+			this.history[drop + 1].time <= keepFrom
+		) {
+			drop++;
+		}
+		if (drop > 0) {
+			this.history.splice(0, drop);
+		}
+	}
+
+	private complete(fill: PendingFill): void {
+		this.recent.push({
+			side: fill.side,
+			markoutBps: Math.min(...fill.markouts),
+			isToxic: fill.isToxic,
+		});
+		if (this.recent.length > this.config.window) {
+			this.recent.shift();
+		}
+
+		if (fill.isToxic && this.isConsistentlyAdverse()) {
+			this.trigger(fill.side);
+		}
+	}
+
+	private isConsistentlyAdverse(): boolean {
+		if (this.recent.length < Math.min(this.config.window, 3)) return false;
+		const toxic = this.recent.filter((f) => f.isToxic).length;
+		return toxic / this.recent.length >= this.config.toxicRatio;
+	}
+
+	private trigger(side: "bid" | "ask"): void {
+		const until = Date.now() + this.config.cooldownMs;
+		const actions: string[] = [];
+		if (this.config.spreadMultiplier > 1) {
+			this.widenUntil = until;
+			actions.push(`spread x${this.config.spreadMultiplier}`);
+		}
+		if (this.config.sideCooldown) {
+			this.cooldownUntil[side] = until;
+			actions.push(`${side} cooldown`);
+		}
+		if (actions.length === 0) return;
+
+		const stats = this.getStats();
+		log.warn(
+			`${this.label}Adverse selection: ${stats.toxicFills}/${stats.fills} toxic fills, avg markout ${stats.avgMarkoutBps?.toFixed(1) ?? "--"}bps → ${actions.join(", ")} for ${this.config.cooldownMs}ms`,
+		);
+	}
+
+	getSpreadMultiplier(): number {
+		return Date.now() < this.widenUntil ? this.config.spreadMultiplier : 1;
+	}
+
+	getCooledSides(): ("bid" | "ask")[] {
+		const now = Date.now();
+		return (["bid", "ask"] as const).filter(
+			(side) => now < this.cooldownUntil[side],
+		);
+	}
+
+	getStats(): {
+		fills: number;
+		toxicFills: number;
+		avgMarkoutBps: number | null;
+	} {
+		const fills = this.recent.length;
+		const toxicFills = this.recent.filter((f) => f.isToxic).length;
+		const avgMarkoutBps =
+			fills > 0
+				? this.recent.reduce((sum, f) => sum + f.markoutBps, 0) / fills
+				: null;
+		return { fills, toxicFills, avgMarkoutBps };
+	}
+}
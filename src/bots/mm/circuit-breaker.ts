@@ -0,0 +1,142 @@
+// Price sanity circuit breaker - pulls quotes when prices stop making sense
+// divergence_bps = |local_mid - (reference_mid + offset)| / reference_mid * 10000
+// jump_bps       = |mid - previous_mid| / previous_mid * 10000 (per source, single tick)
+// Trips when either exceeds its band; resumes once divergence stays under half
+// the band (and no jump) for resumeMs
+// While tripped, divergence is measured against the offset frozen at trip time,
+// and the owner stops feeding offset samples, so the offset model cannot absorb
+// the divergence and reset the breaker without the venues reconverging
+
+import { log } from "../../utils/logger.js";
+
+const MAX_TICK_GAP_MS = 5000; // Ticks further apart than this are not compared
+
+export interface CircuitBreakerConfig {
+	readonly maxDivergenceBps: number; // Reference vs 01 divergence beyond the offset
+	readonly maxJumpBps: number; // Single-tick move on either feed
+	readonly resumeMs: number; // Time prices must stay sane before quoting again
+}
+
+export type PriceSource = "reference" | "local";
+
+interface LastTick {
+	mid: number;
+	time: number;
+}
+
+export class PriceCircuitBreaker {
+	private tripped = false;
+	private trippedAt = 0;
+	private saneSince = 0;
+	private trips = 0;
+	private divergenceOk = true; // Last divergence within half the band (or unknown)
+	private lastOffset: number | null = null; // Offset seen by the last divergence check
+	private frozenOffset: number | null = null; // Offset at trip time, used while tripped
+	private lastTick: Record<PriceSource, LastTick | null> = {
+		reference: null,
+		local: null,
+	};
+
+	// Called on trip so the owner can pull quotes
+	onTrip: ((reason: string) => void) | null = null;
+
+	constructor(
+		private readonly config: CircuitBreakerConfig,
+		private readonly market: string = "",
+	) {}
+
+	// Check a new tick against the previous one from the same source
+	checkJump(source: PriceSource, mid: number): void {
+		const now = Date.now();
+		const previous = this.lastTick[source];
+		this.lastTick[source] = { mid, time: now };
+		if (
+			!previous ||
+			previous.mid <= 0 ||
+			now - previous.time > MAX_TICK_GAP_MS
+		) {
+			return;
+		}
+
+		const jumpBps = (Math.abs(mid - previous.mid) / previous.mid) * 10000;
+		if (jumpBps > this.config.maxJumpBps) {
+			this.trip(
+				`${source} jump ${jumpBps.toFixed(1)}bps > ${this.config.maxJumpBps}bps`,
+			);
+			return;
+		}
+		this.evaluateResume();
+	}
+
+	// Check 01 mid against reference + expected offset (skipped until the offset is known)
+	checkDivergence(
+		referenceMid: number,
+		localMid: number,
+		offset: number | null,
+	): void {
+		const effectiveOffset =
+			this.tripped && this.frozenOffset !== null ? this.frozenOffset : offset;
+		if (effectiveOffset === null || referenceMid <= 0) {
+			this.divergenceOk = true;
+			this.evaluateResume();
+			return;
+		}
+		this.lastOffset = effectiveOffset;
+		const expected = referenceMid + effectiveOffset;
+		const divergenceBps =
+			(Math.abs(localMid - expected) / referenceMid) * 10000;
+
+		this.divergenceOk = divergenceBps <= this.config.maxDivergenceBps / 2;
+		if (divergenceBps > this.config.maxDivergenceBps) {
+			this.trip(
+				`divergence ${divergenceBps.toFixed(1)}bps > ${this.config.maxDivergenceBps}bps`,
+			);
+			return;
+		}
+		this.evaluateResume();
+	}
+
+	isTripped(): boolean {
+		return this.tripped;
+	}
+
+	getTripCount(): number {
+		return this.trips;
+	}
+
+	private trip(reason: string): void {
+		const now = Date.now();
+		this.saneSince = 0;
+		if (this.tripped) return;
+
+		this.tripped = true;
+		this.trippedAt = now;
+		this.frozenOffset = this.lastOffset;
+		this.trips++;
+		log.breaker("trip", `#${this.trips} ${reason}`, this.market);
+		this.onTrip?.(reason);
+	}
+
+	private evaluateResume(): void {
+		if (!this.tripped) return;
+		const now = Date.now();
+		if (!this.divergenceOk) {
+			this.saneSince = 0;
+			return;
+		}
+		if (this.saneSince === 0) {
+			this.saneSince = now;
+			return;
+		}
+		if (now - this.saneSince < this.config.resumeMs) return;
+
+		this.tripped = false;
+		this.saneSince = 0;
+		this.frozenOffset = null;
+		log.breaker(
+			"resume",
+			`#${this.trips} after ${((now - this.trippedAt) / 1000).toFixed(1)}s`,
+			this.market,
+		);
+	}
+}
@@ -1,37 +1,160 @@
 // MarketMaker configuration
 
+import type { BinancePriceMode } from "../../pricing/binance.js";
+import type { BookAdjustmentMode } from "../../pricing/book-adjustment.js";
+import type { CompositeMethod } from "../../pricing/composite.js";
+import type { FairPriceModel } from "../../pricing/fair-price.js";
+import type { ExchangeFeedKind, ReferenceFeedKind } from "../../types.js";
+import type { UnwindPolicy } from "./unwind.js";
+
 export interface MarketMakerConfig {
 	readonly symbol: string; // e.g., "BTC" or "ETH"
-	readonly referenceFeed: "binance" | "coinbase" | "zo"; // Reference feed source
+	readonly strategy: string; // Registered strategy name (see strategy.ts)
+	readonly referenceFeed: ReferenceFeedKind; // Reference feed source
 	readonly enableFeedFailover: boolean; // Auto-switch to fallback feed when stale
+	readonly fallbackFeeds: readonly ExchangeFeedKind[]; // Failover order after the primary feed (then 01 mid)
+	readonly feedFailbackMs: number; // Return to a higher-priority feed after it is healthy this long (0 = never)
+	readonly compositeMethod: CompositeMethod; // Composite blend: "median" or "weighted"
+	readonly compositeMaxAgeMs: number; // Drop composite sources with no price for this long
+	readonly compositeBinanceWeight: number; // Binance weight in composite (0 = excluded)
+	readonly compositeCoinbaseWeight: number; // Coinbase weight in composite (0 = excluded)
+	readonly compositeOkxWeight: number; // OKX weight in composite (0 = excluded)
+	readonly compositeBybitWeight: number; // Bybit weight in composite (0 = excluded)
+	readonly compositeKrakenWeight: number; // Kraken weight in composite (0 = excluded)
+	readonly binancePriceMode: BinancePriceMode; // Binance reference: "bookTicker", "weighted" or "vwap" (depth)
+	readonly binanceDepthLevels: number; // Partial depth levels per side (5, 10 or 20)
+	readonly binanceVwapNotionalUsd: number; // Notional walked per side in vwap mode
 	readonly spreadBps: number; // Spread from fair price (bps)
+	readonly volatilitySpread: boolean; // Scale spread with realized volatility
+	readonly minSpreadBps: number; // Lower bound for volatility-scaled spread (bps)
+	readonly maxSpreadBps: number; // Upper bound for volatility-scaled spread (bps)
+	readonly volatilityHorizonMs: number; // EWMA horizon for realized volatility
+	readonly volatilitySpreadMultiplier: number; // Spread = multiplier * volatility (bps)
 	readonly takeProfitBps: number; // Spread in close mode (bps)
+	readonly bookAdjustment: BookAdjustmentMode; // Fair price adjustment from 01 book
+	readonly bookDepthLevels: number; // Top N levels per side for book imbalance
+	readonly bookAdjustmentWeight: number; // Fraction of book signal applied to fair price
+	readonly maxBookAdjustmentBps: number; // Cap on book adjustment (bps)
+	readonly bookVerifyIntervalMs: number; // REST cross-check of the local 01 book (0 = off)
+	readonly bookVerifyLevels: number; // Top N levels per side compared
+	readonly bookVerifyMaxDrift: number; // Fraction of compared levels that may differ before reset
+	readonly tradeFlowWindowMs: number; // Window for 01 taker flow aggregates
 	readonly requoteThresholdBps: number; // Keep existing order if price diff <= threshold
 	readonly minOrderAgeMs: number; // Keep fresh orders at least this long before replace
+	readonly fundingSkew: boolean; // Skew fair price toward the side that earns funding
+	readonly fundingSkewWeight: number; // Fair price shift (bps) per 1 bps of funding
+	readonly maxFundingSkewBps: number; // Cap on funding skew (bps)
+	readonly fundingPollIntervalMs: number; // Interval for polling funding rate
+	readonly adverseSelection: boolean; // Widen/pause quoting after toxic fills
+	readonly markoutHorizonsMs: readonly number[]; // Fill markout horizons
+	readonly toxicMarkoutBps: number; // Markout below -this is toxic (bps)
+	readonly toxicFillWindow: number; // Recent marked-out fills considered
+	readonly toxicFillRatio: number; // Toxic fraction of window that triggers protection
+	readonly adverseSpreadMultiplier: number; // Spread multiplier while triggered (1 = off)
+	readonly adverseSideCooldown: boolean; // Pause the toxic side while triggered
+	readonly adverseCooldownMs: number; // Protection duration after a trigger
 	readonly orderSizeUsd: number; // Order size in USD
+	readonly quoteLevels: number; // Number of quote levels per side
+	readonly levelSpacingBps: number; // Extra spread per ladder level (bps)
+	readonly levelSizeMultiplier: number; // Size multiplier per ladder level
+	readonly maxInventoryUsd: number; // Inventory at which skew is at full strength (0 = off)
+	readonly inventorySkewBps: number; // Reservation price shift at max inventory (bps)
+	readonly inventorySizeSkew: number; // Size cut on the inventory-increasing side at max inventory (0..1)
+	readonly priceSanity: boolean; // Pull quotes when reference and 01 prices stop agreeing
+	readonly maxDivergenceBps: number; // 01 vs reference + offset divergence that trips the breaker
+	readonly maxJumpBps: number; // Single-tick move on either feed that trips the breaker
+	readonly sanityResumeMs: number; // Time prices must stay sane before quoting again
 	readonly closeThresholdUsd: number; // Trigger close mode when position >= this
+	readonly unwindPolicy: UnwindPolicy; // Close-mode execution: "ioc" crosses at once, "passive" escalates
+	readonly unwindStageTimeoutMs: number; // Time per passive unwind stage before escalating
+	readonly unwindMaxClipUsd: number; // Max close order size in USD (0 = whole position)
 	readonly warmupSeconds: number; // Seconds to warm up before quoting
 	readonly updateThrottleMs: number; // Min interval between quote updates
 	readonly orderSyncIntervalMs: number; // Interval for syncing orders from API
+	readonly orderOrphanGraceMs: number; // Untracked live orders older than this are cancelled as orphans
 	readonly statusIntervalMs: number; // Interval for status display
-	readonly fairPriceWindowMs: number; // Window for fair price calculation
+	readonly fairPriceModel: FairPriceModel; // Offset estimator: "median", "ewma" or "kalman"
+	readonly fairPriceWindowMs: number; // Window for fair price calculation (median)
+	readonly fairPriceHalfLifeMs: number; // Offset half-life (ewma)
+	readonly kalmanProcessNoiseBps: number; // Basis drift per sqrt(second) (kalman)
+	readonly kalmanMeasurementNoiseBps: number; // Noise of one offset sample (kalman)
 	readonly positionSyncIntervalMs: number; // Interval for position sync
+	readonly stateDir: string; // Directory for state snapshots ("" = no persistence)
+	readonly stateSnapshotIntervalMs: number; // Interval for fair price snapshots
 }
 
 // Default configuration values (symbol must be provided)
 export const DEFAULT_CONFIG: Omit<MarketMakerConfig, "symbol"> = {
+	strategy: "default",
 	referenceFeed: "binance",
 	enableFeedFailover: true,
+	fallbackFeeds: ["binance", "coinbase"],
+	feedFailbackMs: 60_000,
+	compositeMethod: "median",
+	compositeMaxAgeMs: 5000,
+	compositeBinanceWeight: 1,
+	compositeCoinbaseWeight: 1,
+	compositeOkxWeight: 1,
+	compositeBybitWeight: 0,
+	compositeKrakenWeight: 0,
+	binancePriceMode: "bookTicker",
+	binanceDepthLevels: 20,
+	binanceVwapNotionalUsd: 50_000,
 	spreadBps: 10,
+	volatilitySpread: false,
+	minSpreadBps: 5,
+	maxSpreadBps: 50,
+	volatilityHorizonMs: 60_000, // 1 minute
+	volatilitySpreadMultiplier: 1,
 	takeProfitBps: 5,
+	bookAdjustment: "off",
+	bookDepthLevels: 5,
+	bookAdjustmentWeight: 0.5,
+	maxBookAdjustmentBps: 5,
+	bookVerifyIntervalMs: 30_000,
+	bookVerifyLevels: 10,
+	bookVerifyMaxDrift: 0.2,
+	tradeFlowWindowMs: 60_000,
 	requoteThresholdBps: 3,
 	minOrderAgeMs: 10000,
+	fundingSkew: false,
+	fundingSkewWeight: 1,
+	maxFundingSkewBps: 5,
+	fundingPollIntervalMs: 60_000,
+	adverseSelection: false,
+	markoutHorizonsMs: [1000, 5000],
+	toxicMarkoutBps: 2,
+	toxicFillWindow: 10,
+	toxicFillRatio: 0.6,
+	adverseSpreadMultiplier: 2,
+	adverseSideCooldown: true,
+	adverseCooldownMs: 30_000,
 	orderSizeUsd: 100,
+	quoteLevels: 1,
+	levelSpacingBps: 5,
+	levelSizeMultiplier: 1,
+	maxInventoryUsd: 0,
+	inventorySkewBps: 5,
+	inventorySizeSkew: 0.5,
+	priceSanity: false,
+	maxDivergenceBps: 25,
+	maxJumpBps: 50,
+	sanityResumeMs: 10_000,
 	closeThresholdUsd: 10,
+	unwindPolicy: "ioc",
+	unwindStageTimeoutMs: 10_000,
+	unwindMaxClipUsd: 0,
 	warmupSeconds: 10,
 	updateThrottleMs: 100,
 	orderSyncIntervalMs: 3000,
+	orderOrphanGraceMs: 10_000,
 	statusIntervalMs: 1000,
+	fairPriceModel: "median",
 	fairPriceWindowMs: 5 * 60 * 1000, // 5 minutes
+	fairPriceHalfLifeMs: 30_000,
+	kalmanProcessNoiseBps: 0.2,
+	kalmanMeasurementNoiseBps: 2,
 	positionSyncIntervalMs: 5000,
+	stateDir: "",
+	stateSnapshotIntervalMs: 30_000,
 };
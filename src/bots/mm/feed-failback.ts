@@ -0,0 +1,145 @@
+// Reference feed failback - probes higher-priority feeds in the background
+// A probe that has streamed prices without a gap for healthyMs is handed back,
+// together with a fair price provider already seeded with its own offset samples
+
+import { isPairable } from "../../pricing/event-time.js";
+import type { FairPriceProvider } from "../../pricing/fair-price.js";
+import type {
+	MidPrice,
+	ReferenceFeed,
+	ReferenceFeedKind,
+} from "../../types.js";
+import { log } from "../../utils/logger.js";
+
+export interface FailbackConfig {
+	readonly healthyMs: number; // Continuous health required before failing back
+	readonly maxGapMs: number; // Price gap that restarts the health timer
+}
+
+export interface FailbackCandidate {
+	readonly index: number; // Position in the reference feed priority
+	readonly kind: ReferenceFeedKind;
+	readonly feed: ReferenceFeed; // Connected, onPrice must be re-bound by the caller
+	readonly fairPrice: FairPriceProvider; // Seeded with this venue's offset
+}
+
+interface Probe {
+	index: number;
+	kind: ReferenceFeedKind;
+	feed: ReferenceFeed;
+	fairPrice: FairPriceProvider;
+	healthySince: number;
+	lastPriceAt: number;
+}
+
+export interface FailbackDeps {
+	createFeed(kind: ReferenceFeedKind): ReferenceFeed | null;
+	createFairPrice(): FairPriceProvider;
+	getLocalPrice(): MidPrice | null; // 01 mid for offset samples
+}
+
+export class ReferenceFailback {
+	private probes = new Map<number, Probe>(); // priority index -> probe
+
+	constructor(
+		private readonly config: FailbackConfig,
+		private readonly deps: FailbackDeps,
+		private readonly label: string = "",
+	) {}
+
+	// Probe every feed ranked above the active one, stop the rest
+	sync(priority: readonly ReferenceFeedKind[], activeIndex: number): void {
+		for (const [index, probe] of this.probes) {
+			if (index >= activeIndex || priority[index] !== probe.kind) {
+				this.stopProbe(index);
+			}
+		}
+		for (let index = 0; index < activeIndex; index++) {
+			if (this.probes.has(index)) continue;
+			const kind = priority[index];
+			const feed = this.deps.createFeed(kind);
+			if (!feed) continue;
+			this.startProbe(index, kind, feed);
+		}
+	}
+
+	// Highest-priority probe that stayed healthy long enough (ownership moves to the caller)
+	takeReady(): FailbackCandidate | null {
+		const now = Date.now();
+		const indices = Array.from(this.probes.keys()).sort((a, b) => a - b);
+		for (const index of indices) {
+			const probe = this.probes.get(index);
+			if (!probe || !this.isHealthy(probe, now)) continue;
+
+			this.probes.delete(index);
+			probe.feed.onPrice = null;
+			log.info(
+				`${this.label}Failback probe ${probe.kind} healthy for ${Math.round((now - probe.healthySince) / 1000)}s`,
+			);
+			return {
+				index,
+				kind: probe.kind,
+				feed: probe.feed,
+				fairPrice: probe.fairPrice,
+			};
+		}
+		return null;
+	}
+
+	close(): void {
+		for (const index of Array.from(this.probes.keys())) {
+			this.stopProbe(index);
+		}
+	}
+
+	private startProbe(
+		index: number,
+		kind: ReferenceFeedKind,
+		feed: ReferenceFeed,
+	): void {
+		const probe: Probe = {
+			index,
+			kind,
+			feed,
+			fairPrice: this.deps.createFairPrice(),
+			healthySince: 0,
+			lastPriceAt: 0,
+		};
+		feed.onPrice = (price) => this.onProbePrice(probe, price);
+		this.probes.set(index, probe);
+		log.info(`${this.label}Probing ${kind} for failback`);
+		feed.connect();
+	}
+
+	private stopProbe(index: number): void {
+		const probe = this.probes.get(index);
+		if (!probe) return;
+		probe.feed.onPrice = null;
+		probe.feed.close();
+		this.probes.delete(index);
+	}
+
+	private onProbePrice(probe: Probe, price: MidPrice): void {
+		const now = Date.now();
+		if (
+			probe.healthySince === 0 ||
+			now - probe.lastPriceAt > this.config.maxGapMs
+		) {
+			probe.healthySince = now;
+		}
+		probe.lastPriceAt = now;
+
+		const local = this.deps.getLocalPrice();
+		if (local && isPairable(local, price)) {
+			probe.fairPrice.addSample(local.mid, price.mid);
+		}
+	}
+
+	private isHealthy(probe: Probe, now: number): boolean {
+		return (
+			probe.healthySince > 0 &&
+			now - probe.lastPriceAt <= this.config.maxGapMs &&
+			now - probe.healthySince >= this.config.healthyMs
+		);
+	}
+}
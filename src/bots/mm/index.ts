@@ -1,29 +1,66 @@
 // MarketMaker - main bot logic
 
-import { FillMode, type NordUser } from "@n1xyz/nord-ts";
+import { join } from "node:path";
+import type { Nord, NordUser } from "@n1xyz/nord-ts";
 import Decimal from "decimal.js";
 import type { DebouncedFunc } from "lodash-es";
-import { throttle } from "lodash-es";
-import { BinancePriceFeed } from "../../pricing/binance.js";
+import { isEqual, throttle } from "lodash-es";
+import {
+	BinancePriceFeed,
+	binanceDepthStreamLevels,
+} from "../../pricing/binance.js";
+import { computeBookAdjustment } from "../../pricing/book-adjustment.js";
+import { BybitPriceFeed } from "../../pricing/bybit.js";
 import { CoinbasePriceFeed } from "../../pricing/coinbase.js";
 import {
-	FairPriceCalculator,
-	type FairPriceConfig,
+	CompositePriceFeed,
+	type CompositeSource,
+} from "../../pricing/composite.js";
+import {
+	formatLatency,
+	isPairable,
+	LatencyTracker,
+} from "../../pricing/event-time.js";
+import {
+	createFairPriceProvider,
+	type FairPriceModel,
+	type FairPriceModelConfig,
 	type FairPriceProvider,
+	type FairPriceSnapshot,
 } from "../../pricing/fair-price.js";
-import { AccountStream, type FillEvent } from "../../sdk/account.js";
-import { createZoClient, type ZoClient } from "../../sdk/client.js";
+import { KrakenPriceFeed } from "../../pricing/kraken.js";
+import { OkxPriceFeed } from "../../pricing/okx.js";
+import { VolatilityEstimator } from "../../pricing/volatility.js";
+import type { FillEvent, TrackedOrder } from "../../sdk/account.js";
+import { FundingRateTracker } from "../../sdk/funding.js";
 import { ZoOrderbookStream } from "../../sdk/orderbook.js";
 import {
 	type CachedOrder,
 	cancelOrders,
 	updateQuotes,
 } from "../../sdk/orders.js";
-import type { MidPrice, Quote } from "../../types.js";
+import { ZoTradesStream } from "../../sdk/trades.js";
+import type {
+	ExchangeFeedKind,
+	MidPrice,
+	ReferenceFeed,
+	ReferenceFeedKind,
+} from "../../types.js";
 import { log } from "../../utils/logger.js";
+import { JsonStateStore } from "../../utils/state-store.js";
+import { AdverseSelectionMonitor } from "./adverse-selection.js";
+import { PriceCircuitBreaker } from "./circuit-breaker.js";
 import type { MarketMakerConfig } from "./config.js";
-import { type PositionConfig, PositionTracker } from "./position.js";
+import { ReferenceFailback } from "./feed-failback.js";
+import { OrderManager } from "./order-manager.js";
+import {
+	type PositionConfig,
+	PositionTracker,
+	type QuotingContext,
+} from "./position.js";
 import { Quoter } from "./quoter.js";
+import type { SessionContext } from "./session.js";
+import { createStrategy, type Strategy } from "./strategy.js";
 
 export type { MarketMakerConfig } from "./config.js";
 
@@ -36,6 +73,17 @@ interface ApiOrder {
 	size: number | string;
 }
 
+// Persisted fair price state (one file per market)
+interface FairPriceStateFile {
+	version: 2;
+	market: string;
+	referenceFeed: ReferenceFeedKind; // Offsets are only valid for this venue
+	model: FairPriceModel;
+	params: FairPriceModelConfig; // State is only valid for the same settings
+	savedAt: number;
+	state: FairPriceSnapshot;
+}
+
 // Convert API orders to cached orders
 function mapApiOrdersToCached(orders: ApiOrder[]): CachedOrder[] {
 	return orders.map((o) => ({
@@ -63,41 +111,97 @@ function deriveCoinbaseSymbol(marketSymbol: string): string {
 	return `${baseSymbol}-USD`;
 }
 
-interface ReferenceFeed {
-	connect(): void;
-	close(): void;
-	getMidPrice(): MidPrice | null;
-	onPrice: ((price: MidPrice) => void) | null;
+// e.g., "BTC-PERP" → "BTC-USDT-SWAP"
+function deriveOkxSymbol(marketSymbol: string): string {
+	const baseSymbol = marketSymbol
+		.replace(/-PERP$/i, "")
+		.replace(/USD$/i, "")
+		.toUpperCase();
+	return `${baseSymbol}-USDT-SWAP`;
 }
 
-type ReferenceFeedKind = "binance" | "coinbase" | "zo";
+// e.g., "BTC-PERP" → "BTCUSDT" (linear perpetual)
+function deriveBybitSymbol(marketSymbol: string): string {
+	const baseSymbol = marketSymbol
+		.replace(/-PERP$/i, "")
+		.replace(/USD$/i, "")
+		.toUpperCase();
+	return `${baseSymbol}USDT`;
+}
 
+// e.g., "BTC-PERP" → "BTC/USD" (spot, WebSocket v2 naming)
+function deriveKrakenSymbol(marketSymbol: string): string {
+	const baseSymbol = marketSymbol
+		.replace(/-PERP$/i, "")
+		.replace(/USD$/i, "")
+		.toUpperCase();
+	return `${baseSymbol}/USD`;
+}
+
+// Find market by symbol (e.g., "BTC" matches "BTC-PERP")
+export function resolveMarket(
+	nord: Nord,
+	symbol: string,
+): Nord["markets"][number] {
+	const market = nord.markets.find((m) =>
+		m.symbol.toUpperCase().startsWith(symbol.toUpperCase()),
+	);
+	if (!market) {
+		const available = nord.markets.map((m) => m.symbol).join(", ");
+		throw new Error(`Market "${symbol}" not found. Available: ${available}`);
+	}
+	return market;
+}
+
+const EXCHANGE_FEED_LABELS: Record<ExchangeFeedKind, string> = {
+	binance: "Binance",
+	coinbase: "Coinbase",
+	okx: "OKX",
+	bybit: "Bybit",
+	kraken: "Kraken",
+};
+
+// Quotes a single market (client, account stream and shutdown are owned by
+// the MarketMakerSession shared across markets)
 export class MarketMaker {
-	private client: ZoClient | null = null;
 	private marketId = 0;
 	private marketSymbol = "";
-	private accountStream: AccountStream | null = null;
 	private orderbookStream: ZoOrderbookStream | null = null;
+	private tradesStream: ZoTradesStream | null = null;
 	private referenceFeed: ReferenceFeed | null = null;
 	private referenceFeedPriority: ReferenceFeedKind[] = ["zo"];
 	private referenceFeedIndex = 0;
 	private referenceFeedHealthInterval: ReturnType<typeof setInterval> | null =
 		null;
 	private lastReferencePriceAt = 0;
+	private referenceLatency = new LatencyTracker(); // Active reference feed
 	private readonly referenceStaleMs = 20_000;
 	private readonly referenceHealthCheckMs = 5_000;
-	private binanceSymbol = "";
-	private coinbaseSymbol = "";
+	private feedSymbols: Record<ExchangeFeedKind, string> = {
+		binance: "",
+		coinbase: "",
+		okx: "",
+		bybit: "",
+		kraken: "",
+	};
 	private fairPriceCalc: FairPriceProvider | null = null;
+	private failback: ReferenceFailback | null = null;
+	private fairPriceStore: JsonStateStore<FairPriceStateFile> | null = null;
+	private fairPriceSnapshotInterval: ReturnType<typeof setInterval> | null =
+		null;
+	private volatility: VolatilityEstimator | null = null;
 	private positionTracker: PositionTracker | null = null;
+	private fundingTracker: FundingRateTracker | null = null;
+	private adverseSelection: AdverseSelectionMonitor | null = null;
+	private circuitBreaker: PriceCircuitBreaker | null = null;
 	private quoter: Quoter | null = null;
+	private strategy: Strategy | null = null;
 	private isRunning = false;
+	private isStopped = false;
 	private lastLoggedSampleCount = -1;
-	private activeOrders: CachedOrder[] = [];
-	private orderFirstSeenMs = new Map<string, number>();
+	private orderManager: OrderManager | null = null;
 	private isUpdating = false;
 	private hasLoggedZoOnlyReady = false;
-	private fetchInfoPromise: Promise<void> | null = null;
 	private throttledUpdate: DebouncedFunc<
 		(fairPrice: number) => Promise<void>
 	> | null = null;
@@ -106,100 +210,203 @@ export class MarketMaker {
 
 	constructor(
 		private readonly config: MarketMakerConfig,
-		private readonly privateKey: string,
+		private readonly session: SessionContext,
 	) {}
 
-	private requireClient(): ZoClient {
-		if (!this.client) {
-			throw new Error("Client not initialized");
-		}
-		return this.client;
-	}
-
-	async run(): Promise<void> {
-		log.banner();
-
-		await this.initialize();
+	async start(): Promise<void> {
+		this.initialize();
+		await this.restoreFairPrice();
+		await this.fundingTracker?.start();
+		// Stopped while starting (shutdown signal): do not go live afterwards
+		if (this.isStopped) return;
+		this.logConfig();
 		this.setupEventHandlers();
 		await this.syncInitialOrders();
+		if (this.isStopped) return;
 		this.startIntervals();
-		this.registerShutdownHandlers();
 
-		log.info("Warming up price feeds...");
-		await this.waitForever();
+		log.info(`${this.marketSymbol}: Warming up price feeds...`);
+	}
+
+	getMarketId(): number {
+		return this.marketId;
+	}
+
+	getMarketSymbol(): string {
+		return this.marketSymbol;
 	}
 
-	private async initialize(): Promise<void> {
+	// Fill routed from the shared account stream
+	handleFill(fill: FillEvent): void {
+		log.fill(
+			fill.side === "bid" ? "buy" : "sell",
+			fill.price,
+			fill.size,
+			this.marketSymbol,
+		);
+		this.positionTracker?.applyFill(fill.side, fill.size, fill.price);
+		this.adverseSelection?.recordFill(fill.side, fill.price);
+		this.orderManager?.onFill(fill.orderId, fill.remaining);
+		// Cancel all orders when entering close mode
+		if (this.positionTracker?.isCloseMode(fill.price)) {
+			this.cancelOrdersAsync();
+		}
+	}
+
+	// Order placement confirmed by the shared account stream
+	handleOrderPlaced(order: TrackedOrder): void {
+		this.orderManager?.onPlaced({
+			orderId: order.orderId,
+			side: order.side,
+			price: new Decimal(order.price),
+			size: new Decimal(order.size),
+		});
+	}
+
+	// Order cancellation seen on the shared account stream
+	handleOrderCancelled(orderId: string): void {
+		this.orderManager?.onCancelled(orderId);
+	}
+
+	private initialize(): void {
 		this.throttledUpdate = throttle(
 			(fairPrice: number) => this.executeUpdate(fairPrice),
 			this.config.updateThrottleMs,
 			{ leading: true, trailing: true },
 		);
 
-		this.client = await createZoClient(this.privateKey);
-		const { nord, accountId } = this.client;
+		const { nord } = this.session.client;
 
-		// Find market by symbol (e.g., "BTC" matches "BTC-PERP")
-		const market = nord.markets.find((m) =>
-			m.symbol.toUpperCase().startsWith(this.config.symbol.toUpperCase()),
-		);
-		if (!market) {
-			const available = nord.markets.map((m) => m.symbol).join(", ");
-			throw new Error(
-				`Market "${this.config.symbol}" not found. Available: ${available}`,
-			);
-		}
+		const market = resolveMarket(nord, this.config.symbol);
 		this.marketId = market.marketId;
 		this.marketSymbol = market.symbol;
 
-		this.binanceSymbol = deriveBinanceSymbol(market.symbol);
-		this.coinbaseSymbol = deriveCoinbaseSymbol(market.symbol);
+		this.feedSymbols = {
+			binance: deriveBinanceSymbol(market.symbol),
+			coinbase: deriveCoinbaseSymbol(market.symbol),
+			okx: deriveOkxSymbol(market.symbol),
+			bybit: deriveBybitSymbol(market.symbol),
+			kraken: deriveKrakenSymbol(market.symbol),
+		};
 		this.referenceFeedPriority = this.buildReferenceFeedPriority();
 		this.referenceFeedIndex = 0;
 		this.applyReferenceFeed(this.referenceFeedPriority[0]);
-		this.logConfig(this.binanceSymbol, this.coinbaseSymbol);
 
 		// Initialize strategy components
-		const fairPriceConfig: FairPriceConfig = {
-			windowMs: this.config.fairPriceWindowMs,
-			minSamples: this.config.warmupSeconds,
-		};
 		const positionConfig: PositionConfig = {
 			closeThresholdUsd: this.config.closeThresholdUsd,
 			takeProfitBps: this.config.takeProfitBps,
+			maxInventoryUsd: this.config.maxInventoryUsd,
+			inventorySkewBps: this.config.inventorySkewBps,
+			inventorySizeSkew: this.config.inventorySizeSkew,
 			syncIntervalMs: this.config.positionSyncIntervalMs,
 		};
 
-		this.fairPriceCalc = new FairPriceCalculator(fairPriceConfig);
+		this.fairPriceCalc = this.createFairPrice();
+		if (this.config.stateDir) {
+			const fileName = `fair-price-${this.marketSymbol.replace(/[^A-Za-z0-9-]/g, "_")}.json`;
+			this.fairPriceStore = new JsonStateStore(
+				join(this.config.stateDir, fileName),
+			);
+		}
+		if (this.config.enableFeedFailover && this.config.feedFailbackMs > 0) {
+			this.failback = new ReferenceFailback(
+				{
+					healthyMs: this.config.feedFailbackMs,
+					// Same gap that fails the active feed over, so quiet
+					// trade-driven feeds (Coinbase ticker, Kraken) can qualify
+					maxGapMs: this.referenceStaleMs,
+				},
+				{
+					createFeed: (kind) => this.createReferenceFeed(kind),
+					createFairPrice: () => this.createFairPrice(),
+					getLocalPrice: () => this.orderbookStream?.getMidPrice() ?? null,
+				},
+				`${this.marketSymbol}: `,
+			);
+		}
+		this.volatility = new VolatilityEstimator({
+			horizonMs: this.config.volatilityHorizonMs,
+			minSamples: this.config.warmupSeconds,
+		});
 		this.positionTracker = new PositionTracker(positionConfig);
+		if (this.config.adverseSelection) {
+			this.adverseSelection = new AdverseSelectionMonitor(
+				{
+					horizonsMs: this.config.markoutHorizonsMs,
+					toxicMarkoutBps: this.config.toxicMarkoutBps,
+					window: this.config.toxicFillWindow,
+					toxicRatio: this.config.toxicFillRatio,
+					spreadMultiplier: this.config.adverseSpreadMultiplier,
+					sideCooldown: this.config.adverseSideCooldown,
+					cooldownMs: this.config.adverseCooldownMs,
+				},
+				`${this.marketSymbol}: `,
+			);
+		}
+		if (this.config.priceSanity) {
+			this.circuitBreaker = new PriceCircuitBreaker(
+				{
+					maxDivergenceBps: this.config.maxDivergenceBps,
+					maxJumpBps: this.config.maxJumpBps,
+					resumeMs: this.config.sanityResumeMs,
+				},
+				this.marketSymbol,
+			);
+			this.circuitBreaker.onTrip = () => {
+				// Pull all quotes until prices reconverge
+				this.throttledUpdate?.cancel();
+				this.cancelOrdersAsync();
+			};
+		}
+		// Opt-in: a market without funding stats must not stop startup when unused
+		if (this.config.fundingSkew) {
+			this.fundingTracker = new FundingRateTracker(
+				nord,
+				this.marketId,
+				this.config.fundingPollIntervalMs,
+				`${this.marketSymbol}: `,
+			);
+		}
 		this.quoter = new Quoter(
 			market.priceDecimals,
 			market.sizeDecimals,
 			this.config.spreadBps,
 			this.config.takeProfitBps,
 			this.config.orderSizeUsd,
+			{
+				levels: this.config.quoteLevels,
+				levelSpacingBps: this.config.levelSpacingBps,
+				sizeMultiplier: this.config.levelSizeMultiplier,
+			},
 		);
+		this.strategy = createStrategy(this.config.strategy, {
+			config: this.config,
+			quoter: this.quoter,
+		});
 
 		// Initialize streams
-		this.accountStream = new AccountStream(nord, accountId);
 		this.orderbookStream = new ZoOrderbookStream(nord, this.marketSymbol);
+		if (this.config.bookVerifyIntervalMs > 0) {
+			this.orderbookStream.enableVerification({
+				intervalMs: this.config.bookVerifyIntervalMs,
+				levels: this.config.bookVerifyLevels,
+				maxDrift: this.config.bookVerifyMaxDrift,
+			});
+		}
+		this.tradesStream = new ZoTradesStream(
+			nord,
+			this.marketSymbol,
+			this.config.tradeFlowWindowMs,
+		);
+		this.orderManager = new OrderManager(
+			{ orphanGraceMs: this.config.orderOrphanGraceMs },
+			`${this.marketSymbol}: `,
+		);
 		this.isRunning = true;
 	}
 
 	private setupEventHandlers(): void {
-		const { user, accountId } = this.requireClient();
-
-		// Account stream - fill events
-		this.accountStream?.syncOrders(user, accountId);
-		this.accountStream?.setOnFill((fill: FillEvent) => {
-			log.fill(fill.side === "bid" ? "buy" : "sell", fill.price, fill.size);
-			this.positionTracker?.applyFill(fill.side, fill.size, fill.price);
-			// Cancel all orders when entering close mode
-			if (this.positionTracker?.isCloseMode(fill.price)) {
-				this.cancelOrdersAsync();
-			}
-		});
-
 		// Price feeds
 		if (this.referenceFeed) {
 			this.referenceFeed.onPrice = (price) => this.handleReferencePrice(price);
@@ -209,97 +416,126 @@ export class MarketMaker {
 		}
 
 		// Start connections
-		this.accountStream?.connect();
 		this.orderbookStream?.connect();
+		this.tradesStream?.connect();
 		this.referenceFeed?.connect();
 		this.startReferenceHealthCheck();
 	}
 
 	private handleReferencePrice(referencePrice: MidPrice): void {
 		this.lastReferencePriceAt = Date.now();
+		this.referenceLatency.record(referencePrice);
+		this.volatility?.addPrice(referencePrice.mid);
 		const zoPrice = this.orderbookStream?.getMidPrice();
+		// Breaker first: a tick that trips it must not reach the offset model
+		this.circuitBreaker?.checkJump("reference", referencePrice.mid);
+		if (zoPrice) {
+			this.circuitBreaker?.checkDivergence(
+				referencePrice.mid,
+				zoPrice.mid,
+				this.fairPriceCalc?.getMedianOffset() ?? null,
+			);
+		}
 		if (
 			zoPrice &&
-			Math.abs(referencePrice.timestamp - zoPrice.timestamp) < 1000
+			isPairable(referencePrice, zoPrice) &&
+			!this.circuitBreaker?.isTripped()
 		) {
 			this.fairPriceCalc?.addSample(zoPrice.mid, referencePrice.mid);
 		}
 
-		if (!this.isRunning) return;
+		if (!this.isRunning || this.circuitBreaker?.isTripped()) return;
 
 		const fairPrice = this.fairPriceCalc?.getFairPrice(referencePrice.mid);
 		if (!fairPrice) {
 			this.logWarmupProgress(referencePrice);
 			return;
 		}
+		this.adverseSelection?.onPrice(fairPrice);
 
 		// Log ready on first valid fair price
 		if (this.lastLoggedSampleCount < this.config.warmupSeconds) {
 			this.lastLoggedSampleCount = this.config.warmupSeconds;
-			log.info(`Ready! Fair price: $${fairPrice.toFixed(2)}`);
+			log.info(
+				`${this.marketSymbol}: Ready! Fair price: $${fairPrice.toFixed(2)}`,
+			);
 		}
 
 		this.throttledUpdate?.(fairPrice);
 	}
 
 	private handleZoPrice(zoPrice: MidPrice): void {
+		this.circuitBreaker?.checkJump("local", zoPrice.mid);
 		if (!this.referenceFeed) {
-			if (!this.isRunning) return;
+			this.volatility?.addPrice(zoPrice.mid);
+			if (!this.isRunning || this.circuitBreaker?.isTripped()) return;
 			if (!this.hasLoggedZoOnlyReady) {
 				this.hasLoggedZoOnlyReady = true;
-				log.info("External feed disabled. Using 01 mid price as fair price.");
+				log.info(
+					`${this.marketSymbol}: External feed disabled. Using 01 mid price as fair price.`,
+				);
 			}
+			this.adverseSelection?.onPrice(zoPrice.mid);
 			this.throttledUpdate?.(zoPrice.mid);
 			return;
 		}
 
-		const binancePrice = this.referenceFeed.getMidPrice();
+		const referencePrice = this.referenceFeed.getMidPrice();
 		if (
-			binancePrice &&
-			Math.abs(zoPrice.timestamp - binancePrice.timestamp) < 1000
+			referencePrice &&
+			isPairable(zoPrice, referencePrice) &&
+			!this.circuitBreaker?.isTripped()
 		) {
-			this.fairPriceCalc?.addSample(zoPrice.mid, binancePrice.mid);
+			this.fairPriceCalc?.addSample(zoPrice.mid, referencePrice.mid);
 		}
 	}
 
-	private logWarmupProgress(binancePrice: MidPrice): void {
+	private logWarmupProgress(referencePrice: MidPrice): void {
 		const state = this.fairPriceCalc?.getState();
 		if (!state || state.samples === this.lastLoggedSampleCount) return;
 
 		this.lastLoggedSampleCount = state.samples;
 		const zoPrice = this.orderbookStream?.getMidPrice();
 		const offsetBps =
-			state.offset !== null && binancePrice.mid > 0
-				? ((state.offset / binancePrice.mid) * 10000).toFixed(1)
+			state.offset !== null && referencePrice.mid > 0
+				? ((state.offset / referencePrice.mid) * 10000).toFixed(1)
 				: "--";
 		log.info(
-			`Warming up: ${state.samples}/${this.config.warmupSeconds} samples | Binance $${binancePrice.mid.toFixed(2)} | 01 $${zoPrice?.mid.toFixed(2) ?? "--"} | Offset ${offsetBps}bps`,
+			`${this.marketSymbol}: Warming up: ${state.samples}/${this.config.warmupSeconds} samples | Reference $${referencePrice.mid.toFixed(2)} | 01 $${zoPrice?.mid.toFixed(2) ?? "--"} | Offset ${offsetBps}bps`,
 		);
 	}
 
 	private async syncInitialOrders(): Promise<void> {
-		const { user, accountId } = this.requireClient();
+		const { user, accountId } = this.session.client;
 
-		await this.safeFetchInfo(user);
+		const fetchedAt = await this.session.fetchInfo();
 		const existingOrders = (user.orders[accountId] ?? []) as ApiOrder[];
 		const marketOrders = existingOrders.filter(
 			(o) => o.marketId === this.marketId,
 		);
-		this.activeOrders = mapApiOrdersToCached(marketOrders);
-		this.refreshOrderAges(this.activeOrders);
+		this.orderManager?.reconcile(mapApiOrdersToCached(marketOrders), {
+			adopt: true,
+			fetchedAt,
+		});
 
-		if (this.activeOrders.length > 0) {
-			log.info(`Synced ${this.activeOrders.length} existing orders`);
+		const synced = this.getOpenOrders().length;
+		if (synced > 0) {
+			log.info(`${this.marketSymbol}: Synced ${synced} existing orders`);
 		}
 
 		// Start position sync
-		this.positionTracker?.startSync(user, accountId, this.marketId, () =>
-			this.safeFetchInfo(user),
+		this.positionTracker?.startSync(
+			user,
+			accountId,
+			this.marketId,
+			async () => {
+				await this.session.fetchInfo();
+			},
 		);
 	}
 
 	private startIntervals(): void {
-		const { user, accountId } = this.requireClient();
+		const { user, accountId } = this.session.client;
 
 		// Status display
 		this.statusInterval = setInterval(() => {
@@ -310,19 +546,22 @@ export class MarketMaker {
 		this.orderSyncInterval = setInterval(() => {
 			this.syncOrders(user, accountId);
 		}, this.config.orderSyncIntervalMs);
-	}
 
-	private registerShutdownHandlers(): void {
-		const shutdown = () => this.shutdown();
-		process.on("SIGINT", shutdown);
-		process.on("SIGTERM", shutdown);
+		// Fair price snapshot
+		if (this.fairPriceStore) {
+			this.fairPriceSnapshotInterval = setInterval(() => {
+				void this.saveFairPrice();
+			}, this.config.stateSnapshotIntervalMs);
+		}
 	}
 
-	private async shutdown(): Promise<void> {
-		log.shutdown();
+	// Stop feeds and intervals, then cancel this market's orders
+	async stop(): Promise<void> {
+		this.isStopped = true;
 		this.isRunning = false;
 		this.throttledUpdate?.cancel();
 		this.positionTracker?.stopSync();
+		this.fundingTracker?.stop();
 
 		if (this.statusInterval) {
 			clearInterval(this.statusInterval);
@@ -336,40 +575,66 @@ export class MarketMaker {
 			clearInterval(this.referenceFeedHealthInterval);
 			this.referenceFeedHealthInterval = null;
 		}
+		if (this.fairPriceSnapshotInterval) {
+			clearInterval(this.fairPriceSnapshotInterval);
+			this.fairPriceSnapshotInterval = null;
+		}
+		await this.saveFairPrice();
 
 		this.referenceFeed?.close();
+		this.failback?.close();
 		this.orderbookStream?.close();
-		this.accountStream?.close();
+		this.tradesStream?.close();
 
 		try {
-			if (this.activeOrders.length > 0 && this.client) {
-				await cancelOrders(this.client.user, this.activeOrders);
-				log.info(`Cancelled ${this.activeOrders.length} orders. Goodbye!`);
-				this.activeOrders = [];
+			// Includes orders whose cancel is still in flight: it may not land
+			const orders = this.orderManager?.getTrackedOrders() ?? [];
+			if (orders.length > 0) {
+				const { cancelled, failures } = await cancelOrders(
+					this.session.client.user,
+					orders,
+					this.session.rateLimiter,
+				);
+				this.orderManager?.markCancelled(cancelled);
+				log.info(`${this.marketSymbol}: Cancelled ${cancelled.length} orders`);
+				if (failures.length > 0) {
+					log.error(
+						`${this.marketSymbol}: ${orders.length - cancelled.length} orders may still be live: ${failures.map((f) => f.message).join("; ")}`,
+					);
+				}
 			} else {
-				log.info("No active orders. Goodbye!");
+				log.info(`${this.marketSymbol}: No active orders`);
 			}
 		} catch (err) {
-			log.error("Shutdown error:", err);
+			log.error(`${this.marketSymbol}: Shutdown error:`, err);
 		}
-
-		process.exit(0);
-	}
-
-	private async waitForever(): Promise<void> {
-		await new Promise(() => {});
 	}
 
-	private async executeUpdate(fairPrice: number): Promise<void> {
+	private async executeUpdate(referenceFairPrice: number): Promise<void> {
 		if (this.isUpdating) return;
 		this.isUpdating = true;
 
 		try {
-			if (!this.positionTracker || !this.quoter || !this.client) {
+			if (
+				!this.positionTracker ||
+				!this.strategy ||
+				this.circuitBreaker?.isTripped()
+			) {
+				return;
+			}
+			// No BBO to clamp against until the snapshot lands: hold quotes
+			if (this.orderbookStream?.isSyncing()) {
+				log.debug(`${this.marketSymbol}: Orderbook resyncing, holding quotes`);
 				return;
 			}
 
-			const quotingCtx = this.positionTracker.getQuotingContext(fairPrice);
+			const bookAdjustment = this.getBookAdjustment();
+			const fundingSkewBps = this.getFundingSkewBps();
+			const fairPrice =
+				(referenceFairPrice + bookAdjustment) * (1 + fundingSkewBps / 10000);
+			const quotingCtx = this.withCooledSides(
+				this.positionTracker.getQuotingContext(fairPrice),
+			);
 			const { positionState } = quotingCtx;
 
 			if (positionState.sizeBase !== 0) {
@@ -378,92 +643,276 @@ export class MarketMaker {
 					positionState.sizeUsd,
 					positionState.isLong,
 					positionState.isCloseMode,
+					this.marketSymbol,
 				);
 			}
 
 			const bbo = this.orderbookStream?.getBBO() ?? null;
-			const quotes = this.quoter.getQuotes(quotingCtx, bbo);
-			const stableQuotes = this.applyRequoteGuard(quotes);
-			const shouldCloseNow =
-				positionState.isCloseMode || positionState.takeProfitReady;
-			const closeQuotes = shouldCloseNow
-				? this.makeAggressiveCloseQuotes(stableQuotes, bbo)
-				: stableQuotes;
-
-			if (closeQuotes.length === 0) {
-				log.warn("No quotes generated (order size too small)");
-				return;
-			}
-
-			const bid = closeQuotes.find((q) => q.side === "bid");
-			const ask = closeQuotes.find((q) => q.side === "ask");
-			const isClose = shouldCloseNow;
-			const spreadBps = isClose
-				? this.config.takeProfitBps
-				: this.config.spreadBps;
-			log.quote(
-				bid?.price.toNumber() ?? null,
-				ask?.price.toNumber() ?? null,
+			const activeOrders = this.getOpenOrders();
+			const now = Date.now();
+			const decision = this.strategy.getQuotes({
 				fairPrice,
-				spreadBps,
-				isClose ? "close" : "normal",
-			);
+				bbo,
+				context: quotingCtx,
+				spreadBps: this.getSpreadBps(),
+				activeOrders,
+				orderAgeMs: (orderId) => this.orderManager?.getAgeMs(orderId, now) ?? 0,
+			});
+			const { quotes } = decision;
 
-			const newOrders = await updateQuotes(
-				this.client.user,
+			if (quotes.length === 0) {
+				log.warn(
+					`${this.marketSymbol}: No quotes generated (order size too small or sides paused)`,
+				);
+				// Still pull resting orders so paused sides don't stay on the book
+				if (activeOrders.length === 0) return;
+			} else {
+				const bid = quotes.find((q) => q.side === "bid" && q.level === 0);
+				const ask = quotes.find((q) => q.side === "ask" && q.level === 0);
+				log.quote(
+					bid?.price.toNumber() ?? null,
+					ask?.price.toNumber() ?? null,
+					fairPrice,
+					decision.spreadBps,
+					decision.mode,
+					{
+						market: this.marketSymbol,
+						levels: Math.max(...quotes.map((q) => q.level)) + 1,
+						skewBps: quotingCtx.skew.priceShiftBps,
+						inventoryRatio: quotingCtx.skew.inventoryRatio,
+						bookAdjustmentBps: (bookAdjustment / referenceFairPrice) * 10000,
+						fundingSkewBps,
+						unwindStage: decision.unwindStage,
+					},
+				);
+			}
+
+			const result = await updateQuotes(
+				this.session.client.user,
 				this.marketId,
-				this.activeOrders,
-				closeQuotes,
-				shouldCloseNow
-					? { fillMode: FillMode.ImmediateOrCancel, isReduceOnly: true }
-					: { fillMode: FillMode.PostOnly, isReduceOnly: false },
+				activeOrders,
+				quotes,
+				decision.fillOptions,
+				this.session.rateLimiter,
 			);
-			this.activeOrders = newOrders;
-			this.refreshOrderAges(this.activeOrders);
+			this.orderManager?.applyUpdate(result);
+			// Breaker tripped while the update was in flight: onTrip could not
+			// see the orders it just placed, so pull them now
+			if (this.circuitBreaker?.isTripped()) {
+				this.cancelOrdersAsync();
+			}
+			// Rejected chunks left state as it was; anything else may have
+			// half-happened, so rebuild from the exchange
+			if (result.failures.some((f) => f.kind !== "rejected")) {
+				const { user, accountId } = this.session.client;
+				this.syncOrders(user, accountId, true);
+			}
 		} catch (err) {
 			log.error("Update error:", err);
-			this.activeOrders = [];
+			// Earlier chunks may have gone through: rebuild from the exchange
+			// rather than forgetting orders that are still live
+			const { user, accountId } = this.session.client;
+			this.syncOrders(user, accountId, true);
 		} finally {
 			this.isUpdating = false;
 		}
 	}
 
-	private logConfig(binanceSymbol: string, coinbaseSymbol: string): void {
-		const feedLabel = this.referenceFeedLabel(binanceSymbol, coinbaseSymbol);
+	private logConfig(): void {
+		const feedLabel = this.referenceFeedLabel();
 		log.config({
 			Market: this.marketSymbol,
+			Strategy: this.config.strategy,
 			"Price Feed": feedLabel,
-			Spread: `${this.config.spreadBps} bps`,
+			"Fair Price": this.formatFairPriceModel(),
+			Spread: this.config.volatilitySpread
+				? `${this.config.minSpreadBps}-${this.config.maxSpreadBps} bps (${this.config.volatilitySpreadMultiplier}x vol over ${this.config.volatilityHorizonMs / 1000}s)`
+				: `${this.config.spreadBps} bps`,
 			"Take Profit": `${this.config.takeProfitBps} bps`,
+			"Book Adjustment":
+				this.config.bookAdjustment === "off"
+					? "off"
+					: `${this.config.bookAdjustment} (top ${this.config.bookDepthLevels}, weight ${this.config.bookAdjustmentWeight}, max ${this.config.maxBookAdjustmentBps} bps)`,
+			Funding: this.formatFunding(),
+			"Funding Skew": this.config.fundingSkew
+				? `weight ${this.config.fundingSkewWeight}, max ${this.config.maxFundingSkewBps} bps`
+				: "off",
+			"Adverse Selection": this.config.adverseSelection
+				? `markout ${this.config.markoutHorizonsMs.join("/")}ms, toxic < -${this.config.toxicMarkoutBps} bps, ${this.config.toxicFillRatio * 100}% of ${this.config.toxicFillWindow} fills`
+				: "off",
+			"Price Sanity": this.config.priceSanity
+				? `divergence ${this.config.maxDivergenceBps} bps, jump ${this.config.maxJumpBps} bps, resume after ${this.config.sanityResumeMs / 1000}s`
+				: "off",
 			"Order Size": `$${this.config.orderSizeUsd}`,
+			Ladder: `${this.config.quoteLevels} levels, +${this.config.levelSpacingBps} bps, x${this.config.levelSizeMultiplier} size`,
+			"Inventory Skew":
+				this.config.maxInventoryUsd > 0
+					? `${this.config.inventorySkewBps} bps / ${this.config.inventorySizeSkew * 100}% size at $${this.config.maxInventoryUsd}`
+					: "off",
 			"Close Mode": `>=$${this.config.closeThresholdUsd}`,
 		});
 	}
 
-	private buildReferenceFeedPriority(): ReferenceFeedKind[] {
-		if (this.config.referenceFeed === "binance") {
-			return ["binance", "coinbase", "zo"];
+	// Drop sides cooling down after toxic fills (never blocks reducing in close mode)
+	private withCooledSides(ctx: QuotingContext): QuotingContext {
+		const cooled = this.adverseSelection?.getCooledSides() ?? [];
+		const { isCloseMode, takeProfitReady } = ctx.positionState;
+		if (cooled.length === 0 || isCloseMode || takeProfitReady) {
+			return ctx;
+		}
+		return {
+			...ctx,
+			allowedSides: ctx.allowedSides.filter((side) => !cooled.includes(side)),
+		};
+	}
+
+	// Fair price offset from 01 book imbalance / microprice (0 when off)
+	private getBookAdjustment(): number {
+		if (this.config.bookAdjustment === "off" || !this.orderbookStream) {
+			return 0;
+		}
+		const depth = this.orderbookStream.getDepth(this.config.bookDepthLevels);
+		return computeBookAdjustment(depth, {
+			mode: this.config.bookAdjustment,
+			levels: this.config.bookDepthLevels,
+			weight: this.config.bookAdjustmentWeight,
+			maxBps: this.config.maxBookAdjustmentBps,
+		});
+	}
+
+	// Fair price shift (bps) leaning toward the side that earns funding:
+	// positive funding (longs pay) → lower fair → quote more on the short side
+	private getFundingSkewBps(): number {
+		const rate = this.fundingTracker?.getRate();
+		if (!rate) {
+			return 0;
+		}
+		const rawBps = -rate.current * 10000 * this.config.fundingSkewWeight;
+		const maxBps = this.config.maxFundingSkewBps;
+		return Math.max(-maxBps, Math.min(maxBps, rawBps));
+	}
+
+	// Current quoting spread: volatility-scaled within [min, max] when enabled,
+	// otherwise (or during volatility warmup) the configured constant spread.
+	// Widened while adverse selection protection is active.
+	private getSpreadBps(): number {
+		const multiplier = this.adverseSelection?.getSpreadMultiplier() ?? 1;
+		if (!this.config.volatilitySpread) {
+			return this.config.spreadBps * multiplier;
 		}
-		if (this.config.referenceFeed === "coinbase") {
-			return ["coinbase", "binance", "zo"];
+		const volBps = this.volatility?.getVolatilityBps() ?? null;
+		const rawBps =
+			volBps === null
+				? this.config.spreadBps
+				: volBps * this.config.volatilitySpreadMultiplier;
+		const clamped = Math.min(
+			this.config.maxSpreadBps,
+			Math.max(this.config.minSpreadBps, rawBps),
+		);
+		return Math.round(clamped * multiplier * 10) / 10;
+	}
+
+	private formatFairPriceModel(): string {
+		const { fairPriceModel } = this.config;
+		if (fairPriceModel === "ewma") {
+			return `ewma (half-life ${this.config.fairPriceHalfLifeMs / 1000}s)`;
+		}
+		if (fairPriceModel === "kalman") {
+			return `kalman (process ${this.config.kalmanProcessNoiseBps} bps, measurement ${this.config.kalmanMeasurementNoiseBps} bps)`;
 		}
-		return ["zo"];
+		return `median (${this.config.fairPriceWindowMs / 1000}s window)`;
+	}
+
+	private formatFunding(): string {
+		if (!this.fundingTracker) return "off";
+		const rate = this.fundingTracker.getRate();
+		if (!rate) return "--";
+		return `${rate.current >= 0 ? "+" : ""}${(rate.current * 100).toFixed(4)}%`;
+	}
+
+	// Receive - event time p50/p90/p99 per feed
+	// Reference feed only: 01 deltas carry no venue time
+	private formatFeedLatency(): string {
+		if (!this.referenceFeed) return "--";
+		const kind = this.referenceFeedPriority[this.referenceFeedIndex];
+		return `${kind} ${formatLatency(this.referenceLatency.getPercentiles())}`;
+	}
+
+	// Primary feed, then fallback exchanges in configured order, then 01 mid
+	private buildReferenceFeedPriority(): ReferenceFeedKind[] {
+		const primary = this.config.referenceFeed;
+		if (primary === "zo") {
+			return ["zo"];
+		}
+		const fallbacks = this.config.fallbackFeeds.filter(
+			(kind) => kind !== primary,
+		);
+		return [primary, ...fallbacks, "zo"];
 	}
 
 	private createReferenceFeed(kind: ReferenceFeedKind): ReferenceFeed | null {
-		if (kind === "binance") {
-			return new BinancePriceFeed(this.binanceSymbol);
+		if (kind === "zo") {
+			return null;
 		}
-		if (kind === "coinbase") {
-			return new CoinbasePriceFeed(this.coinbaseSymbol);
+		if (kind === "composite") {
+			return new CompositePriceFeed(this.buildCompositeSources(), {
+				method: this.config.compositeMethod,
+				maxAgeMs: this.config.compositeMaxAgeMs,
+			});
 		}
-		return null;
+		return this.createExchangeFeed(kind);
+	}
+
+	private createExchangeFeed(kind: ExchangeFeedKind): ReferenceFeed {
+		const symbol = this.feedSymbols[kind];
+		switch (kind) {
+			case "binance":
+				return new BinancePriceFeed(
+					symbol,
+					{},
+					{
+						mode: this.config.binancePriceMode,
+						levels: this.config.binanceDepthLevels,
+						vwapNotionalUsd: this.config.binanceVwapNotionalUsd,
+					},
+				);
+			case "coinbase":
+				return new CoinbasePriceFeed(symbol);
+			case "okx":
+				return new OkxPriceFeed(symbol);
+			case "bybit":
+				return new BybitPriceFeed(symbol);
+			case "kraken":
+				return new KrakenPriceFeed(symbol);
+		}
+	}
+
+	private getCompositeWeights(): Record<ExchangeFeedKind, number> {
+		return {
+			binance: this.config.compositeBinanceWeight,
+			coinbase: this.config.compositeCoinbaseWeight,
+			okx: this.config.compositeOkxWeight,
+			bybit: this.config.compositeBybitWeight,
+			kraken: this.config.compositeKrakenWeight,
+		};
+	}
+
+	private buildCompositeSources(): CompositeSource[] {
+		const weights = this.getCompositeWeights();
+		return (Object.keys(weights) as ExchangeFeedKind[])
+			.filter((kind) => weights[kind] > 0)
+			.map((kind) => ({
+				name: kind,
+				feed: this.createExchangeFeed(kind),
+				weight: weights[kind],
+			}));
 	}
 
 	private applyReferenceFeed(kind: ReferenceFeedKind): void {
 		this.referenceFeed?.close();
 		this.referenceFeed = null;
 		this.lastReferencePriceAt = 0;
+		this.referenceLatency.reset();
 
 		const nextFeed = this.createReferenceFeed(kind);
 		if (!nextFeed) return;
@@ -476,162 +925,263 @@ export class MarketMaker {
 			return;
 		}
 		this.referenceFeedHealthInterval = setInterval(() => {
-			if (!this.isRunning || !this.referenceFeed) {
-				return;
-			}
-			const sinceLastPrice =
-				this.lastReferencePriceAt > 0
-					? Date.now() - this.lastReferencePriceAt
-					: Number.POSITIVE_INFINITY;
-			if (sinceLastPrice < this.referenceStaleMs) {
-				return;
-			}
-			if (this.referenceFeedIndex >= this.referenceFeedPriority.length - 1) {
+			if (!this.isRunning) {
 				return;
 			}
+			this.checkReferenceFailover();
+			this.checkReferenceFailback();
+		}, this.referenceHealthCheckMs);
+	}
 
-			const previous = this.referenceFeedPriority[this.referenceFeedIndex];
-			this.referenceFeedIndex += 1;
-			const next = this.referenceFeedPriority[this.referenceFeedIndex];
-			log.warn(
-				`Reference feed stale (${previous}, ${Math.round(sinceLastPrice)}ms). Switching to ${next}.`,
+	// Move down the priority list when the active feed goes stale
+	private checkReferenceFailover(): void {
+		if (!this.referenceFeed) {
+			return;
+		}
+		const sinceLastPrice =
+			this.lastReferencePriceAt > 0
+				? Date.now() - this.lastReferencePriceAt
+				: Number.POSITIVE_INFINITY;
+		if (sinceLastPrice < this.referenceStaleMs) {
+			return;
+		}
+		if (this.referenceFeedIndex >= this.referenceFeedPriority.length - 1) {
+			return;
+		}
+
+		const previous = this.referenceFeedPriority[this.referenceFeedIndex];
+		this.referenceFeedIndex += 1;
+		const next = this.referenceFeedPriority[this.referenceFeedIndex];
+		log.warn(
+			`${this.marketSymbol}: Reference feed stale (${previous}, ${Math.round(sinceLastPrice)}ms). Switching to ${next}.`,
+		);
+		this.applyReferenceFeed(next);
+		this.referenceFeed?.connect();
+		this.resetFairPrice();
+	}
+
+	// Move back up once a higher-priority feed has been healthy long enough
+	private checkReferenceFailback(): void {
+		if (!this.failback) {
+			return;
+		}
+		this.failback.sync(this.referenceFeedPriority, this.referenceFeedIndex);
+		const candidate = this.failback.takeReady();
+		if (!candidate) {
+			return;
+		}
+
+		const previous = this.referenceFeedPriority[this.referenceFeedIndex];
+		log.info(
+			`${this.marketSymbol}: Reference feed ${candidate.kind} recovered. Switching back from ${previous}.`,
+		);
+		this.referenceFeed?.close();
+		this.referenceFeedIndex = candidate.index;
+		this.referenceFeed = candidate.feed;
+		this.referenceFeed.onPrice = (price) => this.handleReferencePrice(price);
+		this.lastReferencePriceAt = Date.now();
+		this.referenceLatency.reset();
+		this.resetFairPrice(candidate.fairPrice);
+		this.failback.sync(this.referenceFeedPriority, this.referenceFeedIndex);
+	}
+
+	// Offsets are venue-specific: never carry samples across a feed switch.
+	// Use the probe's seeded provider when failing back, otherwise start over.
+	// The venue gap would also read as one large return to the volatility estimator.
+	private resetFairPrice(seeded?: FairPriceProvider): void {
+		if (seeded) {
+			this.fairPriceCalc = seeded;
+		} else {
+			this.fairPriceCalc?.reset();
+		}
+		this.volatility?.resetPrice();
+		this.lastLoggedSampleCount = -1;
+		this.hasLoggedZoOnlyReady = false;
+		if (this.referenceFeed && this.fairPriceCalc?.getMedianOffset() === null) {
+			// Quotes would sit on the old venue's offset until warmup completes
+			this.cancelOrdersAsync();
+		}
+	}
+
+	// Skip warmup when a recent snapshot for the same venue and model exists
+	private async restoreFairPrice(): Promise<void> {
+		if (!this.fairPriceStore || !this.fairPriceCalc) return;
+
+		const saved = await this.fairPriceStore.load();
+		if (!saved || saved.version !== 2) return;
+		const referenceFeed = this.referenceFeedPriority[this.referenceFeedIndex];
+		if (
+			saved.referenceFeed !== referenceFeed ||
+			saved.model !== this.config.fairPriceModel
+		) {
+			log.info(
+				`${this.marketSymbol}: Fair price snapshot is for ${saved.referenceFeed}/${saved.model}, ignoring`,
 			);
-			this.applyReferenceFeed(next);
-			this.referenceFeed?.connect();
-		}, this.referenceHealthCheckMs);
+			return;
+		}
+		if (!isEqual(saved.params, this.fairPriceParams())) {
+			log.info(
+				`${this.marketSymbol}: Fair price settings changed since snapshot, ignoring`,
+			);
+			return;
+		}
+		if (!this.fairPriceCalc.restoreSnapshot(saved.state)) {
+			log.info(`${this.marketSymbol}: Fair price snapshot expired, warming up`);
+			return;
+		}
+
+		const state = this.fairPriceCalc.getState();
+		log.info(
+			`${this.marketSymbol}: Restored fair price state (${state.samples} samples, saved ${Math.round((Date.now() - saved.savedAt) / 1000)}s ago)`,
+		);
 	}
 
-	private referenceFeedLabel(
-		binanceSymbol: string,
-		coinbaseSymbol: string,
-	): string {
-		if (this.config.referenceFeed === "binance") {
-			return `Binance (${binanceSymbol})`;
+	private async saveFairPrice(): Promise<void> {
+		if (!this.fairPriceStore || !this.fairPriceCalc || !this.referenceFeed) {
+			return;
 		}
-		if (this.config.referenceFeed === "coinbase") {
-			return `Coinbase (${coinbaseSymbol})`;
+		if (this.fairPriceCalc.getSampleCount() === 0) return;
+
+		try {
+			await this.fairPriceStore.save({
+				version: 2,
+				market: this.marketSymbol,
+				referenceFeed: this.referenceFeedPriority[this.referenceFeedIndex],
+				model: this.config.fairPriceModel,
+				params: this.fairPriceParams(),
+				savedAt: Date.now(),
+				state: this.fairPriceCalc.toSnapshot(),
+			});
+		} catch (err) {
+			log.warn(`${this.marketSymbol}: Fair price snapshot failed:`, err);
 		}
-		return "01 mid only";
 	}
 
-	private async safeFetchInfo(user: NordUser): Promise<void> {
-		if (this.fetchInfoPromise) {
-			return this.fetchInfoPromise;
+	private createFairPrice(): FairPriceProvider {
+		return createFairPriceProvider(
+			this.config.fairPriceModel,
+			this.fairPriceParams(),
+		);
+	}
+
+	private fairPriceParams(): FairPriceModelConfig {
+		return {
+			minSamples: this.config.warmupSeconds,
+			windowMs: this.config.fairPriceWindowMs,
+			ewmaHalfLifeMs: this.config.fairPriceHalfLifeMs,
+			kalmanProcessNoiseBps: this.config.kalmanProcessNoiseBps,
+			kalmanMeasurementNoiseBps: this.config.kalmanMeasurementNoiseBps,
+		};
+	}
+
+	private referenceFeedLabel(): string {
+		const kind = this.config.referenceFeed;
+		if (kind === "zo") {
+			return "01 mid only";
 		}
-		this.fetchInfoPromise = user.fetchInfo().finally(() => {
-			this.fetchInfoPromise = null;
-		});
-		return this.fetchInfoPromise;
+		if (kind === "composite") {
+			const weights = this.getCompositeWeights();
+			const sources = (Object.keys(weights) as ExchangeFeedKind[])
+				.filter((source) => weights[source] > 0)
+				.map(
+					(source) =>
+						`${EXCHANGE_FEED_LABELS[source]} ${this.feedSymbols[source]} x${weights[source]}`,
+				);
+			return `Composite ${this.config.compositeMethod} (${sources.join(", ")})`;
+		}
+		if (kind === "binance" && this.config.binancePriceMode !== "bookTicker") {
+			const method =
+				this.config.binancePriceMode === "vwap"
+					? `vwap $${this.config.binanceVwapNotionalUsd}`
+					: "size-weighted";
+			const levels = this.config.binanceDepthLevels;
+			return `Binance (${this.feedSymbols.binance}, ${method} over top ${levels} of depth${binanceDepthStreamLevels(levels)})`;
+		}
+		return `${EXCHANGE_FEED_LABELS[kind]} (${this.feedSymbols[kind]})`;
+	}
+
+	private getOpenOrders(): CachedOrder[] {
+		return this.orderManager?.getOpenOrders() ?? [];
 	}
 
 	private cancelOrdersAsync(): void {
-		if (this.activeOrders.length === 0 || !this.client) return;
-		const orders = this.activeOrders;
-		cancelOrders(this.client.user, orders)
-			.then(() => {
-				this.activeOrders = [];
+		const orders = this.getOpenOrders();
+		if (orders.length === 0) return;
+		const orderIds = orders.map((o) => o.orderId);
+		this.orderManager?.markCancelRequested(orderIds);
+		cancelOrders(this.session.client.user, orders, this.session.rateLimiter)
+			.then(({ cancelled, failures }) => {
+				this.orderManager?.markCancelled(cancelled);
+				if (failures.length > 0) {
+					log.error(
+						"Failed to cancel orders:",
+						failures.map((f) => f.message).join("; "),
+					);
+					// Back in play; reconciliation drops any that did get cancelled
+					this.orderManager?.clearCancelRequested(
+						failures.flatMap((f) => f.cancels),
+					);
+				}
 			})
 			.catch((err) => {
 				log.error("Failed to cancel orders:", err);
-				this.activeOrders = [];
+				this.orderManager?.clearCancelRequested(orderIds);
 			});
 	}
 
-	private syncOrders(user: NordUser, accountId: number): void {
-		this.safeFetchInfo(user)
-			.then(() => {
+	// Reconcile tracked orders with REST. adopt: take over unknown live orders
+	// (startup, failed update) instead of cancelling them as orphans
+	private syncOrders(user: NordUser, accountId: number, adopt = false): void {
+		this.session
+			.fetchInfo()
+			.then((fetchedAt) => {
+				// An update in flight would make its own orders look orphaned
+				if (!this.orderManager || (!adopt && this.isUpdating)) return;
 				const apiOrders = (user.orders[accountId] ?? []) as ApiOrder[];
 				const marketOrders = apiOrders.filter(
 					(o) => o.marketId === this.marketId,
 				);
-				this.activeOrders = mapApiOrdersToCached(marketOrders);
-				this.refreshOrderAges(this.activeOrders);
+				const orphans = this.orderManager.reconcile(
+					mapApiOrdersToCached(marketOrders),
+					{ adopt, fetchedAt },
+				);
+				if (orphans.length > 0) {
+					this.cancelOrphans(orphans);
+				}
 			})
 			.catch((err) => {
 				log.error("Order sync error:", err);
 			});
 	}
 
-	private refreshOrderAges(orders: CachedOrder[]): void {
-		const now = Date.now();
-		const liveIds = new Set(orders.map((order) => order.orderId));
-		for (const order of orders) {
-			if (!this.orderFirstSeenMs.has(order.orderId)) {
-				this.orderFirstSeenMs.set(order.orderId, now);
-			}
-		}
-		for (const trackedId of Array.from(this.orderFirstSeenMs.keys())) {
-			if (!liveIds.has(trackedId)) {
-				this.orderFirstSeenMs.delete(trackedId);
-			}
-		}
-	}
-
-	private priceDiffBps(a: Decimal, b: Decimal): number {
-		const denom = a.abs().plus(b.abs()).div(2);
-		if (denom.lte(0)) return 0;
-		return a.minus(b).abs().div(denom).mul(10000).toNumber();
-	}
-
-	private applyRequoteGuard(quotes: Quote[]): Quote[] {
-		this.refreshOrderAges(this.activeOrders);
-		const now = Date.now();
-		const currentBySide = new Map<"bid" | "ask", CachedOrder>();
-		for (const order of this.activeOrders) {
-			if (!currentBySide.has(order.side)) {
-				currentBySide.set(order.side, order);
-			}
-		}
-
-		return quotes.map((quote) => {
-			const existing = currentBySide.get(quote.side);
-			if (!existing) return quote;
-
-			const ageMs = now - (this.orderFirstSeenMs.get(existing.orderId) ?? now);
-			const priceBps = this.priceDiffBps(existing.price, quote.price);
-			const isFresh = ageMs < this.config.minOrderAgeMs;
-			const isWithinThreshold = priceBps <= this.config.requoteThresholdBps;
-
-			if (isFresh || isWithinThreshold) {
-				return {
-					...quote,
-					price: existing.price,
-					size: existing.size,
-				};
-			}
-			return quote;
-		});
-	}
-
-	private makeAggressiveCloseQuotes(
-		quotes: Quote[],
-		bbo: { bestBid: number; bestAsk: number } | null,
-	): Quote[] {
-		if (!bbo) {
-			return quotes;
-		}
-		return quotes.map((quote) => {
-			if (quote.side === "ask") {
-				// For long close, cross to bid so IOC can execute immediately.
-				return {
-					...quote,
-					price: new Decimal(Math.min(quote.price.toNumber(), bbo.bestBid)),
-				};
-			}
-			// For short close, cross to ask so IOC can execute immediately.
-			return {
-				...quote,
-				price: new Decimal(Math.max(quote.price.toNumber(), bbo.bestAsk)),
-			};
-		});
+	private cancelOrphans(orphans: CachedOrder[]): void {
+		cancelOrders(this.session.client.user, orphans, this.session.rateLimiter)
+			.then(({ cancelled, failures }) => {
+				log.info(
+					`${this.marketSymbol}: Cancelled ${cancelled.length}/${orphans.length} orphaned orders`,
+				);
+				if (failures.length > 0) {
+					log.error(
+						`${this.marketSymbol}: Failed to cancel orphaned orders:`,
+						failures.map((f) => f.message).join("; "),
+					);
+				}
+			})
+			.catch((err) => {
+				log.error(
+					`${this.marketSymbol}: Failed to cancel orphaned orders:`,
+					err,
+				);
+			});
 	}
 
 	private logStatus(): void {
 		if (!this.isRunning) return;
 
 		const pos = this.positionTracker?.getBaseSize() ?? 0;
-		const bids = this.activeOrders.filter((o) => o.side === "bid");
-		const asks = this.activeOrders.filter((o) => o.side === "ask");
+		const orders = this.getOpenOrders();
+		const bids = orders.filter((o) => o.side === "bid");
+		const asks = orders.filter((o) => o.side === "ask");
 
 		const formatOrder = (o: CachedOrder) =>
 			`$${o.price.toFixed(2)}x${o.size.toString()}`;
@@ -639,8 +1189,39 @@ export class MarketMaker {
 		const bidStr = bids.map(formatOrder).join(",") || "-";
 		const askStr = asks.map(formatOrder).join(",") || "-";
 
+		const volBps = this.volatility?.getVolatilityBps() ?? null;
+		const volStr = volBps !== null ? `${volBps.toFixed(1)}bps` : "--";
+		const markout = this.adverseSelection?.getStats();
+		const markoutStr = markout
+			? ` | markout=${markout.avgMarkoutBps?.toFixed(1) ?? "--"}bps (${markout.toxicFills}/${markout.fills} toxic)`
+			: "";
+		const breakerStr = this.circuitBreaker?.isTripped() ? " | BREAKER" : "";
+		const flow = this.tradesStream?.getFlow();
+		const flowStr = flow?.trades
+			? ` | flow=${flow.imbalance >= 0 ? "+" : ""}${(flow.imbalance * 100).toFixed(0)}% $${flow.notional.toFixed(0)}/${flow.windowMs / 1000}s`
+			: "";
+		const sync = this.orderbookStream?.getSyncStats();
+		const resyncStr =
+			sync && (sync.resyncs > 0 || sync.verifyMismatches > 0)
+				? ` | book resyncs=${sync.resyncs} (gaps ${sync.gaps}, crossed ${sync.crossedBooks}) drift=${sync.verifyMismatches}/${sync.verifyChecks} (resets ${sync.verifyResets})`
+				: "";
+		const lifecycle = this.orderManager?.getStats();
+		const lastRejected = this.orderManager?.getRecentRejected()[0];
+		const lifecycleStr =
+			lifecycle &&
+			(lifecycle.orphans > 0 ||
+				lifecycle.vanished > 0 ||
+				lifecycle.rejected > 0)
+				? ` | orders orphans=${lifecycle.orphans} vanished=${lifecycle.vanished} rejected=${lifecycle.rejected}${lastRejected ? ` (last: ${lastRejected.side} ${lastRejected.price} ${lastRejected.reason})` : ""}`
+				: "";
+		const rate = this.session.rateLimiter?.getStats();
+		const rateStr =
+			rate && (rate.queued > 0 || rate.currentRate < rate.baseRate)
+				? ` | rate=${rate.currentRate.toFixed(1)}/${rate.baseRate}/s q=${rate.queuedCancels}c+${rate.queuedPlaces}p (max ${rate.maxQueueDepth})`
+				: "";
+
 		log.info(
-			`STATUS: pos=${pos.toFixed(5)} | bid=[${bidStr}] | ask=[${askStr}]`,
+			`STATUS [${this.marketSymbol}]: pos=${pos.toFixed(5)} | bid=[${bidStr}] | ask=[${askStr}] | vol=${volStr} | spread=${this.getSpreadBps()}bps | funding=${this.formatFunding()}${markoutStr}${flowStr} | latency=${this.formatFeedLatency()}${resyncStr}${lifecycleStr}${rateStr}${breakerStr}`,
 		);
 	}
 }
@@ -0,0 +1,307 @@
+// Order lifecycle tracking for one market
+// pending → acknowledged → partially_filled → filled, or → cancelled from any open state
+// Places that never rested are kept apart as terminal rejected entries
+// pending:      posted by an atomic call, not yet confirmed by the account stream
+// acknowledged: confirmed by the account stream or a REST snapshot
+// REST reconciliation closes orders the exchange no longer had when the fetch
+// started (anything placed or changed since is left alone) and reports
+// live orders we do not track (orphans) once they outlast the grace period
+
+import Decimal from "decimal.js";
+import type {
+	CachedOrder,
+	QuoteUpdateResult,
+	UnpostedPlace,
+} from "../../sdk/orders.js";
+import { log } from "../../utils/logger.js";
+
+const REJECTED_HISTORY = 20; // Most recent rejected places kept
+
+export type OrderState =
+	| "pending"
+	| "acknowledged"
+	| "partially_filled"
+	| "filled"
+	| "cancelled";
+
+export interface ManagedOrder {
+	readonly orderId: string;
+	readonly side: "bid" | "ask";
+	readonly price: Decimal;
+	readonly originalSize: Decimal;
+	remaining: Decimal;
+	state: OrderState;
+	readonly createdAt: number; // Local time first seen
+	updatedAt: number;
+	cancelRequested: boolean; // Cancel sent, awaiting confirmation
+}
+
+// Place that never rested on the book; terminal from the start
+export interface RejectedPlace extends UnpostedPlace {
+	readonly rejectedAt: number;
+}
+
+export interface OrderManagerConfig {
+	readonly orphanGraceMs: number; // Untracked live orders older than this are orphans; pending orders missing from REST this long are dropped
+}
+
+export interface OrderManagerStats {
+	open: number;
+	placed: number; // Posted by our atomic calls
+	filled: number;
+	cancelled: number; // Confirmed by an atomic response or the account stream
+	rejected: number; // Place actions that left no resting order or were refused
+	vanished: number; // Closed because REST no longer had them (cancelled or filled unseen)
+	orphans: number; // Untracked live orders reported for cleanup
+}
+
+export interface ReconcileOptions {
+	readonly adopt: boolean; // Track unknown live orders instead of reporting them as orphans
+	readonly fetchedAt: number; // When the REST fetch started; later changes are newer than the snapshot
+}
+
+export class OrderManager {
+	private orders = new Map<string, ManagedOrder>(); // Open orders only
+	private unknownSince = new Map<string, number>(); // Live on exchange, not tracked
+	private rejected: RejectedPlace[] = []; // Most recent first
+	private stats = {
+		placed: 0,
+		filled: 0,
+		cancelled: 0,
+		rejected: 0,
+		vanished: 0,
+		orphans: 0,
+	};
+
+	constructor(
+		private readonly config: OrderManagerConfig,
+		private readonly label: string = "",
+	) {}
+
+	// Resting orders to quote against (excludes orders being cancelled)
+	getOpenOrders(): CachedOrder[] {
+		return this.getTrackedOrders().filter(
+			(order) => !this.orders.get(order.orderId)?.cancelRequested,
+		);
+	}
+
+	// Every open order, including those with a cancel in flight (for shutdown)
+	getTrackedOrders(): CachedOrder[] {
+		return Array.from(this.orders.values()).map((order) => ({
+			orderId: order.orderId,
+			side: order.side,
+			price: order.price,
+			size: order.remaining,
+		}));
+	}
+
+	getOrder(orderId: string): ManagedOrder | undefined {
+		return this.orders.get(orderId);
+	}
+
+	getAgeMs(orderId: string, now: number = Date.now()): number {
+		const order = this.orders.get(orderId);
+		return order ? now - order.createdAt : 0;
+	}
+
+	getStats(): OrderManagerStats {
+		return { open: this.orders.size, ...this.stats };
+	}
+
+	// Latest rejected places, most recent first
+	getRecentRejected(): readonly RejectedPlace[] {
+		return this.rejected;
+	}
+
+	// Outcome of an atomic quote update
+	applyUpdate(result: QuoteUpdateResult): void {
+		this.markCancelled(result.cancelled);
+		for (const order of result.placed) {
+			this.stats.placed++;
+			this.track(order, "pending");
+		}
+		const now = Date.now();
+		// Taker places that filled or expired at once did what they were sent for
+		for (const place of result.unposted) {
+			if (place.kind !== "rejected") continue;
+			this.stats.rejected++;
+			this.rejected.unshift({ ...place, rejectedAt: now });
+		}
+		this.rejected.length = Math.min(this.rejected.length, REJECTED_HISTORY);
+	}
+
+	markCancelRequested(orderIds: readonly string[]): void {
+		this.setCancelRequested(orderIds, true);
+	}
+
+	// Cancel failed: orders are back in play until REST says otherwise
+	clearCancelRequested(orderIds: readonly string[]): void {
+		this.setCancelRequested(orderIds, false);
+	}
+
+	// Cancel confirmed by an atomic response
+	markCancelled(orderIds: readonly string[]): void {
+		for (const orderId of orderIds) {
+			if (this.close(orderId, "cancelled")) {
+				this.stats.cancelled++;
+			}
+		}
+	}
+
+	// Account stream: order rests on the book
+	onPlaced(order: CachedOrder): void {
+		const existing = this.orders.get(order.orderId);
+		if (existing) {
+			if (existing.state === "pending") {
+				this.transition(existing, "acknowledged");
+			}
+			return;
+		}
+		// Stream can beat the atomic response; applyUpdate keeps this state
+		this.track(order, "acknowledged");
+	}
+
+	// Account stream: fill against one of our orders
+	onFill(orderId: string, remaining: number): void {
+		const order = this.orders.get(orderId);
+		if (!order) return;
+
+		if (remaining <= 0) {
+			this.stats.filled++;
+			this.close(orderId, "filled");
+			return;
+		}
+		order.remaining = new Decimal(remaining);
+		this.transition(order, "partially_filled");
+	}
+
+	// Account stream: order left the book
+	onCancelled(orderId: string): void {
+		if (this.close(orderId, "cancelled")) {
+			this.stats.cancelled++;
+		}
+	}
+
+	// Align with the exchange's open orders for this market; returns orphans to cancel
+	reconcile(
+		exchangeOrders: readonly CachedOrder[],
+		options: ReconcileOptions,
+	): CachedOrder[] {
+		const now = Date.now();
+		const live = new Map(exchangeOrders.map((order) => [order.orderId, order]));
+
+		// Tracked orders the exchange no longer has: filled or cancelled without an event reaching us
+		for (const order of Array.from(this.orders.values())) {
+			if (live.has(order.orderId)) continue;
+			// Placed or changed after the fetch started: the snapshot cannot know it
+			if (
+				order.createdAt >= options.fetchedAt ||
+				order.updatedAt >= options.fetchedAt
+			) {
+				continue;
+			}
+			// REST can lag the atomic response
+			if (
+				order.state === "pending" &&
+				now - order.createdAt < this.config.orphanGraceMs
+			) {
+				continue;
+			}
+			// Left the book without an event: may have filled, so not counted as a cancel
+			this.stats.vanished++;
+			log.debug(
+				`${this.label}Order ${order.orderId} (${order.state}) no longer on exchange`,
+			);
+			this.close(order.orderId, "cancelled");
+		}
+
+		const orphans: CachedOrder[] = [];
+		for (const order of live.values()) {
+			const tracked = this.orders.get(order.orderId);
+			if (tracked) {
+				this.unknownSince.delete(order.orderId);
+				if (tracked.state === "pending") {
+					this.transition(tracked, "acknowledged");
+				}
+				if (order.size.lt(tracked.remaining)) {
+					tracked.remaining = order.size;
+					this.transition(tracked, "partially_filled");
+				}
+				continue;
+			}
+
+			if (options.adopt) {
+				this.unknownSince.delete(order.orderId);
+				this.track(order, "acknowledged");
+				continue;
+			}
+			const firstSeen = this.unknownSince.get(order.orderId) ?? now;
+			this.unknownSince.set(order.orderId, firstSeen);
+			if (now - firstSeen >= this.config.orphanGraceMs) {
+				orphans.push(order);
+			}
+		}
+
+		for (const orderId of Array.from(this.unknownSince.keys())) {
+			if (!live.has(orderId)) {
+				this.unknownSince.delete(orderId);
+			}
+		}
+		if (orphans.length > 0) {
+			this.stats.orphans += orphans.length;
+			log.warn(
+				`${this.label}${orphans.length} orphaned order(s) on exchange: ${orphans.map((o) => o.orderId).join(", ")}`,
+			);
+			// Reported once; if the cleanup fails they come back after another grace period
+			for (const order of orphans) {
+				this.unknownSince.delete(order.orderId);
+			}
+		}
+		return orphans;
+	}
+
+	private track(order: CachedOrder, state: OrderState): void {
+		if (this.orders.has(order.orderId)) return;
+		const now = Date.now();
+		this.orders.set(order.orderId, {
+			orderId: order.orderId,
+			side: order.side,
+			price: order.price,
+			originalSize: order.size,
+			remaining: order.size,
+			state,
+			createdAt: now,
+			updatedAt: now,
+			cancelRequested: false,
+		});
+	}
+
+	private transition(order: ManagedOrder, state: OrderState): void {
+		if (order.state === state) return;
+		log.debug(`${this.label}Order ${order.orderId}: ${order.state} → ${state}`);
+		order.state = state;
+		order.updatedAt = Date.now();
+	}
+
+	// Returns false if the order was not tracked
+	private close(orderId: string, state: "filled" | "cancelled"): boolean {
+		const order = this.orders.get(orderId);
+		if (!order) return false;
+		this.transition(order, state);
+		this.orders.delete(orderId);
+		return true;
+	}
+
+	private setCancelRequested(
+		orderIds: readonly string[],
+		requested: boolean,
+	): void {
+		for (const orderId of orderIds) {
+			const order = this.orders.get(orderId);
+			if (order) {
+				order.cancelRequested = requested;
+				order.updatedAt = Date.now();
+			}
+		}
+	}
+}
@@ -13,15 +13,28 @@ export interface PositionState {
 	readonly takeProfitReady: boolean;
 }
 
+// Inventory skew derived from position relative to max inventory
+export interface InventorySkew {
+	readonly inventoryRatio: number; // sizeUsd / maxInventoryUsd, clamped to [-1, 1]
+	readonly priceShiftBps: number; // Reservation price shift from fair (bps)
+	readonly bidSizeFactor: number; // Bid size multiplier (0..1)
+	readonly askSizeFactor: number; // Ask size multiplier (0..1)
+}
+
 export interface QuotingContext {
 	readonly fairPrice: number;
+	readonly reservationPrice: number; // Fair price shifted by inventory skew
 	readonly positionState: PositionState;
 	readonly allowedSides: readonly ("bid" | "ask")[];
+	readonly skew: InventorySkew;
 }
 
 export interface PositionConfig {
 	readonly closeThresholdUsd: number; // Trigger close mode when position >= this
 	readonly takeProfitBps: number; // Trigger close behavior when in profit by this bps
+	readonly maxInventoryUsd: number; // Inventory at which skew is at full strength (0 = off)
+	readonly inventorySkewBps: number; // Reservation price shift at max inventory (bps)
+	readonly inventorySizeSkew: number; // Size reduction on the increasing side at max inventory (0..1)
 	readonly syncIntervalMs: number;
 }
 
@@ -114,10 +127,40 @@ export class PositionTracker {
 	getQuotingContext(fairPrice: number): QuotingContext {
 		const positionState = this.getState(fairPrice);
 		const allowedSides = this.getAllowedSides(positionState);
+		const skew = this.getSkew(positionState);
 		return {
 			fairPrice,
+			reservationPrice: fairPrice * (1 + skew.priceShiftBps / 10000),
 			positionState,
 			allowedSides,
+			skew,
+		};
+	}
+
+	// Continuous inventory skew: long → lower reservation price and smaller bids,
+	// short → higher reservation price and smaller asks
+	private getSkew(state: PositionState): InventorySkew {
+		const { maxInventoryUsd, inventorySkewBps, inventorySizeSkew } =
+			this.config;
+		if (maxInventoryUsd <= 0) {
+			return {
+				inventoryRatio: 0,
+				priceShiftBps: 0,
+				bidSizeFactor: 1,
+				askSizeFactor: 1,
+			};
+		}
+
+		const inventoryRatio = Math.max(
+			-1,
+			Math.min(1, state.sizeUsd / maxInventoryUsd),
+		);
+		const sizeSkew = Math.max(0, Math.min(1, inventorySizeSkew));
+		return {
+			inventoryRatio,
+			priceShiftBps: -inventoryRatio * inventorySkewBps,
+			bidSizeFactor: 1 - Math.max(0, inventoryRatio) * sizeSkew,
+			askSizeFactor: 1 - Math.max(0, -inventoryRatio) * sizeSkew,
 		};
 	}
 
@@ -147,7 +190,7 @@ export class PositionTracker {
 	}
 
 	private getAllowedSides(state: PositionState): ("bid" | "ask")[] {
-		// Close mode or take-profit: only allow reducing
+		// Close mode or take-profit: only allow reducing (last resort beyond skew)
 		if (state.isCloseMode || state.takeProfitReady) {
 			return state.isLong ? ["ask"] : ["bid"];
 		}
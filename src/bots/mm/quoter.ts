@@ -7,6 +7,19 @@ import type { QuotingContext } from "./position.js";
 
 export type { Quote } from "../../types.js";
 
+// Quote ladder shape (per side)
+export interface QuoteLadder {
+	readonly levels: number; // Number of levels per side
+	readonly levelSpacingBps: number; // Extra spread added per level (bps)
+	readonly sizeMultiplier: number; // Size multiplier applied per level
+}
+
+const SINGLE_LEVEL: QuoteLadder = {
+	levels: 1,
+	levelSpacingBps: 0,
+	sizeMultiplier: 1,
+};
+
 export class Quoter {
 	private readonly tickSize: Decimal;
 	private readonly lotSize: Decimal;
@@ -17,77 +30,134 @@ export class Quoter {
 		private readonly spreadBps: number,
 		private readonly takeProfitBps: number,
 		private readonly orderSizeUsd: number,
+		private readonly ladder: QuoteLadder = SINGLE_LEVEL,
 	) {
 		this.tickSize = new Decimal(10).pow(-priceDecimals);
 		this.lotSize = new Decimal(10).pow(-sizeDecimals);
 	}
 
 	// Calculate quotes from quoting context, clamped to BBO
-	getQuotes(ctx: QuotingContext, bbo: BBO | null): Quote[] {
-		const { fairPrice, positionState, allowedSides } = ctx;
-		const fair = new Decimal(fairPrice);
-		const bps = positionState.isCloseMode ? this.takeProfitBps : this.spreadBps;
-		const spreadAmount = fair.mul(bps).div(10000);
+	// Normal mode: ladder of levels per side, Close mode: single level
+	// Prices are centered on the inventory-skewed reservation price
+	// spreadBps overrides the configured spread (e.g. volatility-scaled)
+	getQuotes(
+		ctx: QuotingContext,
+		bbo: BBO | null,
+		spreadBps: number = this.spreadBps,
+	): Quote[] {
+		const { reservationPrice, positionState, allowedSides, skew } = ctx;
+		const fair = new Decimal(reservationPrice);
+		const bps = positionState.isCloseMode ? this.takeProfitBps : spreadBps;
+		const levels = positionState.isCloseMode
+			? 1
+			: Math.max(1, Math.floor(this.ladder.levels));
 
 		// In close mode: limit size to position size
-		let size: Decimal;
+		let baseSize: Decimal;
 		if (positionState.isCloseMode) {
 			const posSize = new Decimal(positionState.sizeBase).abs();
-			size = this.alignSize(posSize);
+			baseSize = this.alignSize(posSize);
 		} else {
-			size = this.usdToSize(this.orderSizeUsd, fair);
+			baseSize = this.usdToSize(this.orderSizeUsd, fair);
 		}
 
 		// Skip if size is too small
-		if (size.lte(0)) {
+		if (baseSize.lte(0)) {
 			return [];
 		}
 
 		const quotes: Quote[] = [];
 
 		if (allowedSides.includes("bid")) {
-			let bidPrice = this.alignPrice(fair.sub(spreadAmount), "floor");
-
-			// Clamp bid to not exceed best ask (don't cross spread)
-			if (bbo && bidPrice.gte(bbo.bestAsk)) {
-				bidPrice = this.alignPrice(
-					new Decimal(bbo.bestAsk).sub(this.tickSize),
-					"floor",
-				);
-			}
-
-			if (bidPrice.gt(0)) {
-				quotes.push({
-					side: "bid",
-					price: bidPrice,
-					size,
-				});
+			const sideSize = this.sideSize(baseSize, skew.bidSizeFactor, ctx);
+			let prevPrice: Decimal | null = null;
+			for (let level = 0; level < levels; level++) {
+				const size = this.levelSize(sideSize, level);
+				if (size.lte(0)) break;
+
+				const spreadAmount = this.levelSpread(fair, bps, level);
+				let bidPrice = this.alignPrice(fair.sub(spreadAmount), "floor");
+
+				// Clamp bid to not exceed best ask (don't cross spread)
+				if (bbo && bidPrice.gte(bbo.bestAsk)) {
+					bidPrice = this.alignPrice(
+						new Decimal(bbo.bestAsk).sub(this.tickSize),
+						"floor",
+					);
+				}
+
+				// Keep levels strictly below the previous level
+				if (prevPrice && bidPrice.gte(prevPrice)) {
+					bidPrice = prevPrice.sub(this.tickSize);
+				}
+
+				if (bidPrice.lte(0)) break;
+				quotes.push({ side: "bid", price: bidPrice, size, level });
+				prevPrice = bidPrice;
 			}
 		}
 
 		if (allowedSides.includes("ask")) {
-			let askPrice = this.alignPrice(fair.add(spreadAmount), "ceil");
-
-			// Clamp ask to not go below best bid (don't cross spread)
-			if (bbo && askPrice.lte(bbo.bestBid)) {
-				askPrice = this.alignPrice(
-					new Decimal(bbo.bestBid).add(this.tickSize),
-					"ceil",
-				);
-			}
-
-			if (askPrice.gt(0)) {
-				quotes.push({
-					side: "ask",
-					price: askPrice,
-					size,
-				});
+			const sideSize = this.sideSize(baseSize, skew.askSizeFactor, ctx);
+			let prevPrice: Decimal | null = null;
+			for (let level = 0; level < levels; level++) {
+				const size = this.levelSize(sideSize, level);
+				if (size.lte(0)) break;
+
+				const spreadAmount = this.levelSpread(fair, bps, level);
+				let askPrice = this.alignPrice(fair.add(spreadAmount), "ceil");
+
+				// Clamp ask to not go below best bid (don't cross spread)
+				if (bbo && askPrice.lte(bbo.bestBid)) {
+					askPrice = this.alignPrice(
+						new Decimal(bbo.bestBid).add(this.tickSize),
+						"ceil",
+					);
+				}
+
+				// Keep levels strictly above the previous level
+				if (prevPrice && askPrice.lte(prevPrice)) {
+					askPrice = prevPrice.add(this.tickSize);
+				}
+
+				if (askPrice.lte(0)) break;
+				quotes.push({ side: "ask", price: askPrice, size, level });
+				prevPrice = askPrice;
 			}
 		}
 
 		return quotes;
 	}
 
+	// Cap size to a USD notional, aligned to lot size (maxUsd <= 0 = no cap)
+	capSize(size: Decimal, maxUsd: number, price: Decimal): Decimal {
+		if (maxUsd <= 0 || price.lte(0)) return size;
+		return Decimal.min(size, this.usdToSize(maxUsd, price));
+	}
+
+	// Apply inventory size skew (close mode always uses full position size)
+	private sideSize(
+		baseSize: Decimal,
+		factor: number,
+		ctx: QuotingContext,
+	): Decimal {
+		if (ctx.positionState.isCloseMode || factor >= 1) return baseSize;
+		return this.alignSize(baseSize.mul(Math.max(0, factor)));
+	}
+
+	// Spread amount for a ladder level: base spread + level * spacing
+	private levelSpread(fair: Decimal, baseBps: number, level: number): Decimal {
+		const bps = baseBps + level * this.ladder.levelSpacingBps;
+		return fair.mul(bps).div(10000);
+	}
+
+	// Size for a ladder level: base size * multiplier^level
+	private levelSize(baseSize: Decimal, level: number): Decimal {
+		if (level === 0) return baseSize;
+		const multiplier = new Decimal(this.ladder.sizeMultiplier).pow(level);
+		return this.alignSize(baseSize.mul(multiplier));
+	}
+
 	// Align price to tick size
 	private alignPrice(price: Decimal, round: "floor" | "ceil"): Decimal {
 		const ticks = price.div(this.tickSize);
@@ -0,0 +1,167 @@
+// MarketMakerSession - one 01 session and account stream shared by all markets
+
+import {
+	AccountStream,
+	type CancelEvent,
+	type FillEvent,
+	type TrackedOrder,
+} from "../../sdk/account.js";
+import { createZoClient, type ZoClient } from "../../sdk/client.js";
+import {
+	ActionRateLimiter,
+	type RateLimiterConfig,
+} from "../../sdk/rate-limiter.js";
+import { log } from "../../utils/logger.js";
+import type { MarketMakerConfig } from "./config.js";
+import { MarketMaker, resolveMarket } from "./index.js";
+
+// What a MarketMaker needs from the shared session
+export interface SessionContext {
+	readonly client: ZoClient;
+	/** Order action budget shared by all markets (null = unlimited) */
+	readonly rateLimiter: ActionRateLimiter | null;
+	/** Refresh user info (deduplicated across markets); resolves with the time the fetch started */
+	fetchInfo(): Promise<number>;
+}
+
+export class MarketMakerSession implements SessionContext {
+	private zoClient: ZoClient | null = null;
+	private accountStream: AccountStream | null = null;
+	private makers = new Map<number, MarketMaker>(); // marketId -> MarketMaker
+	private fetchInfoPromise: Promise<number> | null = null;
+	private isShuttingDown = false;
+	readonly rateLimiter: ActionRateLimiter | null;
+
+	constructor(
+		private readonly configs: readonly MarketMakerConfig[],
+		private readonly privateKey: string,
+		rateLimit: RateLimiterConfig | null = null, // Exchange limits are per account (null = unlimited)
+	) {
+		this.rateLimiter = rateLimit ? new ActionRateLimiter(rateLimit) : null;
+	}
+
+	get client(): ZoClient {
+		if (!this.zoClient) {
+			throw new Error("Client not initialized");
+		}
+		return this.zoClient;
+	}
+
+	async run(): Promise<void> {
+		log.banner();
+
+		this.zoClient = await createZoClient(this.privateKey);
+		const { nord, user, accountId } = this.zoClient;
+
+		// Reject duplicates before any maker starts: a started duplicate would
+		// adopt, and on stop cancel, the other maker's orders
+		const seen = new Map<number, string>(); // marketId -> configured symbol
+		for (const config of this.configs) {
+			const market = resolveMarket(nord, config.symbol);
+			const other = seen.get(market.marketId);
+			if (other !== undefined) {
+				throw new Error(
+					`Markets "${other}" and "${config.symbol}" both resolve to ${market.symbol}`,
+				);
+			}
+			seen.set(market.marketId, config.symbol);
+		}
+
+		// Single account subscription, fills routed by marketId. Connected
+		// before any maker starts: a maker can quote as soon as start() returns
+		this.accountStream = new AccountStream(nord, accountId);
+		this.accountStream.syncOrders(user, accountId);
+		this.accountStream.setOnFill((fill) => this.routeFill(fill));
+		this.accountStream.setOnPlace((order) => this.routePlace(order));
+		this.accountStream.setOnCancel((cancel) => this.routeCancel(cancel));
+		this.accountStream.connect();
+
+		this.registerShutdownHandlers();
+
+		try {
+			for (const config of this.configs) {
+				if (this.isShuttingDown) return;
+				// Registered first so events during start() reach it
+				const maker = new MarketMaker(config, this);
+				this.makers.set(resolveMarket(nord, config.symbol).marketId, maker);
+				await maker.start();
+			}
+		} catch (err) {
+			// Pull the orders of the markets that did start before giving up
+			this.isShuttingDown = true;
+			this.accountStream.close();
+			await Promise.all(Array.from(this.makers.values()).map((m) => m.stop()));
+			throw err;
+		}
+
+		log.info(
+			`Running ${this.makers.size} market(s): ${Array.from(this.makers.values())
+				.map((m) => m.getMarketSymbol())
+				.join(", ")}`,
+		);
+		await this.waitForever();
+	}
+
+	async fetchInfo(): Promise<number> {
+		if (this.fetchInfoPromise) {
+			return this.fetchInfoPromise;
+		}
+		const startedAt = Date.now();
+		const promise = this.client.user
+			.fetchInfo()
+			.then(() => startedAt)
+			.finally(() => {
+				this.fetchInfoPromise = null;
+			});
+		this.fetchInfoPromise = promise;
+		return promise;
+	}
+
+	private routeFill(fill: FillEvent): void {
+		const maker = this.makers.get(fill.marketId);
+		if (!maker) {
+			log.debug(`Fill for unmanaged market ${fill.marketId} ignored`);
+			return;
+		}
+		maker.handleFill(fill);
+	}
+
+	private routePlace(order: TrackedOrder): void {
+		this.makers.get(order.marketId)?.handleOrderPlaced(order);
+	}
+
+	// Cancels for orders placed before the stream connected carry no market
+	private routeCancel(cancel: CancelEvent): void {
+		const makers =
+			cancel.marketId === null
+				? Array.from(this.makers.values())
+				: [this.makers.get(cancel.marketId)];
+		for (const maker of makers) {
+			maker?.handleOrderCancelled(cancel.orderId);
+		}
+	}
+
+	private registerShutdownHandlers(): void {
+		const shutdown = () => this.shutdown();
+		process.on("SIGINT", shutdown);
+		process.on("SIGTERM", shutdown);
+	}
+
+	private async shutdown(): Promise<void> {
+		if (this.isShuttingDown) return;
+		this.isShuttingDown = true;
+
+		log.shutdown();
+		this.accountStream?.close();
+
+		// Each market cancels its own orders
+		await Promise.all(Array.from(this.makers.values()).map((m) => m.stop()));
+
+		log.info("Goodbye!");
+		process.exit(0);
+	}
+
+	private async waitForever(): Promise<void> {
+		await new Promise(() => {});
+	}
+}
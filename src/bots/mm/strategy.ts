@@ -0,0 +1,157 @@
+// Strategy - turns fair price, book and position state into desired quotes
+// Strategies are registered by name and selected via MarketMakerConfig.strategy
+
+import { FillMode } from "@n1xyz/nord-ts";
+import Decimal from "decimal.js";
+import type { BBO } from "../../sdk/orderbook.js";
+import {
+	type CachedOrder,
+	type PlaceOptions,
+	sortByLevel,
+} from "../../sdk/orders.js";
+import type { Quote } from "../../types.js";
+import type { MarketMakerConfig } from "./config.js";
+import type { QuotingContext } from "./position.js";
+import type { Quoter } from "./quoter.js";
+import { UnwindExecutor, type UnwindStage } from "./unwind.js";
+
+// Market state passed to a strategy on each update
+export interface StrategyInput {
+	readonly fairPrice: number;
+	readonly bbo: BBO | null;
+	readonly context: QuotingContext; // Position state, allowed sides, inventory skew
+	readonly spreadBps: number; // Current normal-mode spread (bps)
+	readonly activeOrders: readonly CachedOrder[];
+	readonly orderAgeMs: (orderId: string) => number;
+}
+
+// Desired quotes and how to place them
+export interface StrategyDecision {
+	readonly quotes: Quote[];
+	readonly fillOptions: PlaceOptions;
+	readonly mode: "normal" | "close";
+	readonly spreadBps: number; // Effective spread (bps), for logging
+	readonly unwindStage?: UnwindStage; // Close-mode execution stage, for logging
+}
+
+export interface Strategy {
+	readonly name: string;
+	getQuotes(input: StrategyInput): StrategyDecision;
+}
+
+// Shared components a strategy can build on
+export interface StrategyDeps {
+	readonly config: MarketMakerConfig;
+	readonly quoter: Quoter;
+}
+
+export type StrategyFactory = (deps: StrategyDeps) => Strategy;
+
+const strategies = new Map<string, StrategyFactory>();
+
+export function registerStrategy(name: string, factory: StrategyFactory): void {
+	strategies.set(name.toLowerCase(), factory);
+}
+
+export function getStrategyNames(): string[] {
+	return Array.from(strategies.keys());
+}
+
+export function createStrategy(name: string, deps: StrategyDeps): Strategy {
+	const factory = strategies.get(name.toLowerCase());
+	if (!factory) {
+		throw new Error(
+			`Strategy "${name}" not found. Available: ${getStrategyNames().join(", ")}`,
+		);
+	}
+	return factory(deps);
+}
+
+function priceDiffBps(a: Decimal, b: Decimal): number {
+	const denom = a.abs().plus(b.abs()).div(2);
+	if (denom.lte(0)) return 0;
+	return a.minus(b).abs().div(denom).mul(10000).toNumber();
+}
+
+// Default strategy: ladder quotes around the reservation price,
+// requote guard for fresh/near orders, staged reduce-only unwind in close mode
+export class DefaultStrategy implements Strategy {
+	readonly name = "default";
+	private readonly unwind: UnwindExecutor;
+
+	constructor(private readonly deps: StrategyDeps) {
+		this.unwind = new UnwindExecutor(
+			{
+				policy: deps.config.unwindPolicy,
+				stageTimeoutMs: deps.config.unwindStageTimeoutMs,
+			},
+			`${deps.config.symbol}: `,
+		);
+	}
+
+	getQuotes(input: StrategyInput): StrategyDecision {
+		const { config, quoter } = this.deps;
+		const { positionState } = input.context;
+
+		const quotes = quoter.getQuotes(input.context, input.bbo, input.spreadBps);
+		const stableQuotes = this.applyRequoteGuard(quotes, input);
+		const shouldCloseNow =
+			positionState.isCloseMode || positionState.takeProfitReady;
+
+		if (shouldCloseNow) {
+			const fair = new Decimal(input.fairPrice);
+			const clipped = stableQuotes.map((quote) => ({
+				...quote,
+				size: quoter.capSize(quote.size, config.unwindMaxClipUsd, fair),
+			}));
+			const plan = this.unwind.plan(clipped, input.bbo);
+			return {
+				quotes: plan.quotes.filter((quote) => quote.size.gt(0)),
+				fillOptions: plan.fillOptions,
+				mode: "close",
+				spreadBps: config.takeProfitBps,
+				unwindStage: plan.stage,
+			};
+		}
+		this.unwind.reset();
+
+		return {
+			quotes: stableQuotes,
+			fillOptions: { fillMode: FillMode.PostOnly, isReduceOnly: false },
+			mode: "normal",
+			spreadBps: input.spreadBps,
+		};
+	}
+
+	// Keep existing orders that are still fresh or within the requote threshold
+	private applyRequoteGuard(quotes: Quote[], input: StrategyInput): Quote[] {
+		const { config } = this.deps;
+
+		// Current orders per side, indexed by ladder level
+		const currentBySide = {
+			bid: sortByLevel(input.activeOrders.filter((o) => o.side === "bid")),
+			ask: sortByLevel(input.activeOrders.filter((o) => o.side === "ask")),
+		};
+
+		return quotes.map((quote) => {
+			const existing = currentBySide[quote.side][quote.level];
+			if (!existing) return quote;
+
+			const ageMs = input.orderAgeMs(existing.orderId);
+			const priceBps = priceDiffBps(existing.price, quote.price);
+			const isFresh = ageMs < config.minOrderAgeMs;
+			const isWithinThreshold = priceBps <= config.requoteThresholdBps;
+
+			if (isFresh || isWithinThreshold) {
+				return {
+					...quote,
+					price: existing.price,
+					size: existing.size,
+				};
+			}
+			return quote;
+		});
+	}
+}
+
+registerStrategy("default", (deps) => new DefaultStrategy(deps));
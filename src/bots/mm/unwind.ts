@@ -0,0 +1,135 @@
+// Close-mode unwind execution
+// ioc:     cross the spread with IOC reduce-only right away
+// passive: post-only reduce-only at the close quote, then join the touch,
+//          then cross with IOC, escalating after stageTimeoutMs per stage
+
+import { FillMode } from "@n1xyz/nord-ts";
+import Decimal from "decimal.js";
+import type { BBO } from "../../sdk/orderbook.js";
+import type { PlaceOptions } from "../../sdk/orders.js";
+import type { Quote } from "../../types.js";
+import { log } from "../../utils/logger.js";
+
+export type UnwindPolicy = "ioc" | "passive";
+export type UnwindStage = "passive" | "join" | "cross";
+
+const STAGES: readonly UnwindStage[] = ["passive", "join", "cross"];
+
+export interface UnwindConfig {
+	readonly policy: UnwindPolicy;
+	readonly stageTimeoutMs: number; // Time in a stage before escalating
+}
+
+export interface UnwindPlan {
+	readonly quotes: Quote[];
+	readonly fillOptions: PlaceOptions;
+	readonly stage: UnwindStage;
+}
+
+export class UnwindExecutor {
+	private stage: UnwindStage | null = null;
+	private stageSince = 0;
+
+	constructor(
+		private readonly config: UnwindConfig,
+		private readonly label: string = "",
+	) {}
+
+	// Reprice close quotes for the current stage (escalating on timeout)
+	plan(quotes: Quote[], bbo: BBO | null): UnwindPlan {
+		const stage = this.advanceStage();
+
+		if (stage === "cross") {
+			return {
+				quotes: this.crossQuotes(quotes, bbo),
+				fillOptions: {
+					fillMode: FillMode.ImmediateOrCancel,
+					isReduceOnly: true,
+				},
+				stage,
+			};
+		}
+
+		return {
+			quotes: stage === "join" ? this.joinQuotes(quotes, bbo) : quotes,
+			fillOptions: { fillMode: FillMode.PostOnly, isReduceOnly: true },
+			stage,
+		};
+	}
+
+	// Leave close mode
+	reset(): void {
+		if (this.stage !== null) {
+			log.info(`${this.label}UNWIND: done (last stage ${this.stage})`);
+		}
+		this.stage = null;
+		this.stageSince = 0;
+	}
+
+	getStage(): UnwindStage | null {
+		return this.stage;
+	}
+
+	private advanceStage(): UnwindStage {
+		const now = Date.now();
+
+		if (this.stage === null) {
+			this.setStage(this.config.policy === "ioc" ? "cross" : "passive", now);
+		} else if (
+			this.stage !== "cross" &&
+			now - this.stageSince >= this.config.stageTimeoutMs
+		) {
+			this.setStage(STAGES[STAGES.indexOf(this.stage) + 1], now);
+		}
+
+		return this.stage ?? "cross";
+	}
+
+	private setStage(stage: UnwindStage, now: number): void {
+		const previous = this.stage;
+		this.stage = stage;
+		this.stageSince = now;
+		log.info(
+			`${this.label}UNWIND: ${previous ? `${previous} → ` : ""}${stage} (${this.config.policy})`,
+		);
+	}
+
+	// Join the touch on our side (still post-only)
+	private joinQuotes(quotes: Quote[], bbo: BBO | null): Quote[] {
+		if (!bbo) {
+			return quotes;
+		}
+		return quotes.map((quote) => {
+			if (quote.side === "ask") {
+				return {
+					...quote,
+					price: new Decimal(Math.min(quote.price.toNumber(), bbo.bestAsk)),
+				};
+			}
+			return {
+				...quote,
+				price: new Decimal(Math.max(quote.price.toNumber(), bbo.bestBid)),
+			};
+		});
+	}
+
+	private crossQuotes(quotes: Quote[], bbo: BBO | null): Quote[] {
+		if (!bbo) {
+			return quotes;
+		}
+		return quotes.map((quote) => {
+			if (quote.side === "ask") {
+				// For long close, cross to bid so IOC can execute immediately.
+				return {
+					...quote,
+					price: new Decimal(Math.min(quote.price.toNumber(), bbo.bestBid)),
+				};
+			}
+			// For short close, cross to ask so IOC can execute immediately.
+			return {
+				...quote,
+				price: new Decimal(Math.max(quote.price.toNumber(), bbo.bestAsk)),
+			};
+		});
+	}
+}
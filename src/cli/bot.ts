@@ -1,8 +1,25 @@
 // CLI entry point for market maker bot
 
 import "dotenv/config";
-import { DEFAULT_CONFIG } from "../bots/mm/config.js";
-import { MarketMaker } from "../bots/mm/index.js";
+import { DEFAULT_CONFIG, type MarketMakerConfig } from "../bots/mm/config.js";
+import { MarketMakerSession } from "../bots/mm/session.js";
+import type { UnwindPolicy } from "../bots/mm/unwind.js";
+import {
+	type BinancePriceMode,
+	validateBinanceDepthConfig,
+} from "../pricing/binance.js";
+import type { BookAdjustmentMode } from "../pricing/book-adjustment.js";
+import {
+	type CompositeMethod,
+	validateCompositeConfig,
+} from "../pricing/composite.js";
+import type { FairPriceModel } from "../pricing/fair-price.js";
+import {
+	DEFAULT_RATE_LIMITER_CONFIG,
+	type RateLimiterConfig,
+	validateRateLimiterConfig,
+} from "../sdk/rate-limiter.js";
+import type { ExchangeFeedKind, ReferenceFeedKind } from "../types.js";
 import { log } from "../utils/logger.js";
 
 function parseEnvNumber(name: string, fallback: number): number {
@@ -12,11 +29,36 @@ function parseEnvNumber(name: string, fallback: number): number {
 	return Number.isFinite(parsed) ? parsed : fallback;
 }
 
-function parseReferenceFeed(): "binance" | "coinbase" | "zo" {
+function parseEnvNumberList(
+	name: string,
+	fallback: readonly number[],
+): number[] {
+	const raw = process.env[name];
+	if (!raw) return [...fallback];
+	const parsed = raw
+		.split(",")
+		.map((v) => Number(v.trim()))
+		.filter((v) => Number.isFinite(v) && v > 0);
+	return parsed.length > 0 ? parsed : [...fallback];
+}
+
+const EXCHANGE_FEEDS: readonly ExchangeFeedKind[] = [
+	"binance",
+	"coinbase",
+	"okx",
+	"bybit",
+	"kraken",
+];
+
+function isExchangeFeed(value: string): value is ExchangeFeedKind {
+	return (EXCHANGE_FEEDS as readonly string[]).includes(value);
+}
+
+function parseReferenceFeed(): ReferenceFeedKind {
 	const raw = (process.env.REFERENCE_FEED ?? "").trim().toLowerCase();
-	if (raw === "coinbase") return "coinbase";
+	if (isExchangeFeed(raw)) return raw;
+	if (raw === "composite") return "composite";
 	if (raw === "zo" || raw === "off" || raw === "none") return "zo";
-	if (raw === "binance") return "binance";
 
 	// Backward compatibility
 	const useBinance =
@@ -24,6 +66,55 @@ function parseReferenceFeed(): "binance" | "coinbase" | "zo" {
 	return useBinance ? "binance" : "zo";
 }
 
+function parseFallbackFeeds(): ExchangeFeedKind[] {
+	const raw = process.env.FALLBACK_FEEDS;
+	if (raw === undefined) return [...DEFAULT_CONFIG.fallbackFeeds];
+	const feeds: ExchangeFeedKind[] = [];
+	for (const value of raw.split(",")) {
+		const kind = value.trim().toLowerCase();
+		if (!kind) continue;
+		if (!isExchangeFeed(kind)) {
+			log.warn(`Unknown fallback feed "${kind}" ignored`);
+			continue;
+		}
+		feeds.push(kind);
+	}
+	return feeds;
+}
+
+function parseCompositeMethod(): CompositeMethod {
+	const raw = (process.env.COMPOSITE_METHOD ?? "").trim().toLowerCase();
+	if (raw === "weighted") return "weighted";
+	return DEFAULT_CONFIG.compositeMethod;
+}
+
+function parseBinancePriceMode(): BinancePriceMode {
+	const raw = (process.env.BINANCE_PRICE_MODE ?? "").trim().toLowerCase();
+	if (raw === "bookticker") return "bookTicker";
+	if (raw === "weighted" || raw === "vwap") return raw;
+	return DEFAULT_CONFIG.binancePriceMode;
+}
+
+function parseFairPriceModel(): FairPriceModel {
+	const raw = (process.env.FAIR_PRICE_MODEL ?? "").trim().toLowerCase();
+	if (raw === "ewma") return "ewma";
+	if (raw === "kalman") return "kalman";
+	return DEFAULT_CONFIG.fairPriceModel;
+}
+
+function parseBookAdjustment(): BookAdjustmentMode {
+	const raw = (process.env.BOOK_ADJUSTMENT ?? "").trim().toLowerCase();
+	if (raw === "imbalance") return "imbalance";
+	if (raw === "microprice") return "microprice";
+	return DEFAULT_CONFIG.bookAdjustment;
+}
+
+function parseUnwindPolicy(): UnwindPolicy {
+	const raw = (process.env.UNWIND_POLICY ?? "").trim().toLowerCase();
+	if (raw === "passive") return "passive";
+	return DEFAULT_CONFIG.unwindPolicy;
+}
+
 function parseEnvBoolean(name: string, fallback: boolean): boolean {
 	const raw = process.env[name];
 	if (!raw) return fallback;
@@ -33,12 +124,274 @@ function parseEnvBoolean(name: string, fallback: boolean): boolean {
 	return fallback;
 }
 
+// Shared config for all markets (from env)
+function buildBaseConfig(): Omit<MarketMakerConfig, "symbol"> {
+	return {
+		...DEFAULT_CONFIG,
+		strategy: process.env.STRATEGY?.trim() || DEFAULT_CONFIG.strategy,
+		referenceFeed: parseReferenceFeed(),
+		enableFeedFailover: parseEnvBoolean(
+			"ENABLE_FEED_FAILOVER",
+			DEFAULT_CONFIG.enableFeedFailover,
+		),
+		fallbackFeeds: parseFallbackFeeds(),
+		feedFailbackMs: parseEnvNumber(
+			"FEED_FAILBACK_MS",
+			DEFAULT_CONFIG.feedFailbackMs,
+		),
+		compositeMethod: parseCompositeMethod(),
+		compositeMaxAgeMs: parseEnvNumber(
+			"COMPOSITE_MAX_AGE_MS",
+			DEFAULT_CONFIG.compositeMaxAgeMs,
+		),
+		compositeBinanceWeight: parseEnvNumber(
+			"COMPOSITE_BINANCE_WEIGHT",
+			DEFAULT_CONFIG.compositeBinanceWeight,
+		),
+		compositeCoinbaseWeight: parseEnvNumber(
+			"COMPOSITE_COINBASE_WEIGHT",
+			DEFAULT_CONFIG.compositeCoinbaseWeight,
+		),
+		compositeOkxWeight: parseEnvNumber(
+			"COMPOSITE_OKX_WEIGHT",
+			DEFAULT_CONFIG.compositeOkxWeight,
+		),
+		compositeBybitWeight: parseEnvNumber(
+			"COMPOSITE_BYBIT_WEIGHT",
+			DEFAULT_CONFIG.compositeBybitWeight,
+		),
+		compositeKrakenWeight: parseEnvNumber(
+			"COMPOSITE_KRAKEN_WEIGHT",
+			DEFAULT_CONFIG.compositeKrakenWeight,
+		),
+		binancePriceMode: parseBinancePriceMode(),
+		binanceDepthLevels: parseEnvNumber(
+			"BINANCE_DEPTH_LEVELS",
+			DEFAULT_CONFIG.binanceDepthLevels,
+		),
+		binanceVwapNotionalUsd: parseEnvNumber(
+			"BINANCE_VWAP_NOTIONAL_USD",
+			DEFAULT_CONFIG.binanceVwapNotionalUsd,
+		),
+		fairPriceModel: parseFairPriceModel(),
+		fairPriceHalfLifeMs: parseEnvNumber(
+			"FAIR_PRICE_HALF_LIFE_MS",
+			DEFAULT_CONFIG.fairPriceHalfLifeMs,
+		),
+		kalmanProcessNoiseBps: parseEnvNumber(
+			"KALMAN_PROCESS_NOISE_BPS",
+			DEFAULT_CONFIG.kalmanProcessNoiseBps,
+		),
+		kalmanMeasurementNoiseBps: parseEnvNumber(
+			"KALMAN_MEASUREMENT_NOISE_BPS",
+			DEFAULT_CONFIG.kalmanMeasurementNoiseBps,
+		),
+		stateDir: (process.env.STATE_DIR ?? DEFAULT_CONFIG.stateDir).trim(),
+		stateSnapshotIntervalMs: parseEnvNumber(
+			"STATE_SNAPSHOT_INTERVAL_MS",
+			DEFAULT_CONFIG.stateSnapshotIntervalMs,
+		),
+		spreadBps: parseEnvNumber("SPREAD_BPS", DEFAULT_CONFIG.spreadBps),
+		volatilitySpread: parseEnvBoolean(
+			"VOL_SPREAD",
+			DEFAULT_CONFIG.volatilitySpread,
+		),
+		minSpreadBps: parseEnvNumber("MIN_SPREAD_BPS", DEFAULT_CONFIG.minSpreadBps),
+		maxSpreadBps: parseEnvNumber("MAX_SPREAD_BPS", DEFAULT_CONFIG.maxSpreadBps),
+		volatilityHorizonMs: parseEnvNumber(
+			"VOL_HORIZON_MS",
+			DEFAULT_CONFIG.volatilityHorizonMs,
+		),
+		volatilitySpreadMultiplier: parseEnvNumber(
+			"VOL_SPREAD_MULTIPLIER",
+			DEFAULT_CONFIG.volatilitySpreadMultiplier,
+		),
+		takeProfitBps: parseEnvNumber(
+			"TAKE_PROFIT_BPS",
+			DEFAULT_CONFIG.takeProfitBps,
+		),
+		bookAdjustment: parseBookAdjustment(),
+		bookDepthLevels: parseEnvNumber(
+			"BOOK_DEPTH_LEVELS",
+			DEFAULT_CONFIG.bookDepthLevels,
+		),
+		bookAdjustmentWeight: parseEnvNumber(
+			"BOOK_ADJUSTMENT_WEIGHT",
+			DEFAULT_CONFIG.bookAdjustmentWeight,
+		),
+		maxBookAdjustmentBps: parseEnvNumber(
+			"MAX_BOOK_ADJUSTMENT_BPS",
+			DEFAULT_CONFIG.maxBookAdjustmentBps,
+		),
+		bookVerifyIntervalMs: parseEnvNumber(
+			"BOOK_VERIFY_INTERVAL_MS",
+			DEFAULT_CONFIG.bookVerifyIntervalMs,
+		),
+		bookVerifyLevels: parseEnvNumber(
+			"BOOK_VERIFY_LEVELS",
+			DEFAULT_CONFIG.bookVerifyLevels,
+		),
+		bookVerifyMaxDrift: parseEnvNumber(
+			"BOOK_VERIFY_MAX_DRIFT",
+			DEFAULT_CONFIG.bookVerifyMaxDrift,
+		),
+		tradeFlowWindowMs: parseEnvNumber(
+			"TRADE_FLOW_WINDOW_MS",
+			DEFAULT_CONFIG.tradeFlowWindowMs,
+		),
+		maxInventoryUsd: parseEnvNumber(
+			"MAX_INVENTORY_USD",
+			DEFAULT_CONFIG.maxInventoryUsd,
+		),
+		inventorySkewBps: parseEnvNumber(
+			"INVENTORY_SKEW_BPS",
+			DEFAULT_CONFIG.inventorySkewBps,
+		),
+		inventorySizeSkew: parseEnvNumber(
+			"INVENTORY_SIZE_SKEW",
+			DEFAULT_CONFIG.inventorySizeSkew,
+		),
+		closeThresholdUsd: parseEnvNumber(
+			"CLOSE_THRESHOLD_USD",
+			DEFAULT_CONFIG.closeThresholdUsd,
+		),
+		priceSanity: parseEnvBoolean("PRICE_SANITY", DEFAULT_CONFIG.priceSanity),
+		maxDivergenceBps: parseEnvNumber(
+			"MAX_DIVERGENCE_BPS",
+			DEFAULT_CONFIG.maxDivergenceBps,
+		),
+		maxJumpBps: parseEnvNumber("MAX_JUMP_BPS", DEFAULT_CONFIG.maxJumpBps),
+		sanityResumeMs: parseEnvNumber(
+			"SANITY_RESUME_MS",
+			DEFAULT_CONFIG.sanityResumeMs,
+		),
+		unwindPolicy: parseUnwindPolicy(),
+		unwindStageTimeoutMs: parseEnvNumber(
+			"UNWIND_STAGE_TIMEOUT_MS",
+			DEFAULT_CONFIG.unwindStageTimeoutMs,
+		),
+		unwindMaxClipUsd: parseEnvNumber(
+			"UNWIND_MAX_CLIP_USD",
+			DEFAULT_CONFIG.unwindMaxClipUsd,
+		),
+		fundingSkew: parseEnvBoolean("FUNDING_SKEW", DEFAULT_CONFIG.fundingSkew),
+		fundingSkewWeight: parseEnvNumber(
+			"FUNDING_SKEW_WEIGHT",
+			DEFAULT_CONFIG.fundingSkewWeight,
+		),
+		maxFundingSkewBps: parseEnvNumber(
+			"MAX_FUNDING_SKEW_BPS",
+			DEFAULT_CONFIG.maxFundingSkewBps,
+		),
+		adverseSelection: parseEnvBoolean(
+			"ADVERSE_SELECTION",
+			DEFAULT_CONFIG.adverseSelection,
+		),
+		markoutHorizonsMs: parseEnvNumberList(
+			"MARKOUT_HORIZONS_MS",
+			DEFAULT_CONFIG.markoutHorizonsMs,
+		),
+		toxicMarkoutBps: parseEnvNumber(
+			"TOXIC_MARKOUT_BPS",
+			DEFAULT_CONFIG.toxicMarkoutBps,
+		),
+		toxicFillWindow: parseEnvNumber(
+			"TOXIC_FILL_WINDOW",
+			DEFAULT_CONFIG.toxicFillWindow,
+		),
+		toxicFillRatio: parseEnvNumber(
+			"TOXIC_FILL_RATIO",
+			DEFAULT_CONFIG.toxicFillRatio,
+		),
+		adverseSpreadMultiplier: parseEnvNumber(
+			"ADVERSE_SPREAD_MULTIPLIER",
+			DEFAULT_CONFIG.adverseSpreadMultiplier,
+		),
+		adverseSideCooldown: parseEnvBoolean(
+			"ADVERSE_SIDE_COOLDOWN",
+			DEFAULT_CONFIG.adverseSideCooldown,
+		),
+		adverseCooldownMs: parseEnvNumber(
+			"ADVERSE_COOLDOWN_MS",
+			DEFAULT_CONFIG.adverseCooldownMs,
+		),
+		orderSizeUsd: parseEnvNumber("ORDER_SIZE_USD", DEFAULT_CONFIG.orderSizeUsd),
+		quoteLevels: parseEnvNumber("QUOTE_LEVELS", DEFAULT_CONFIG.quoteLevels),
+		levelSpacingBps: parseEnvNumber(
+			"LEVEL_SPACING_BPS",
+			DEFAULT_CONFIG.levelSpacingBps,
+		),
+		levelSizeMultiplier: parseEnvNumber(
+			"LEVEL_SIZE_MULTIPLIER",
+			DEFAULT_CONFIG.levelSizeMultiplier,
+		),
+		requoteThresholdBps: parseEnvNumber(
+			"REQUOTE_THRESHOLD_BPS",
+			DEFAULT_CONFIG.requoteThresholdBps,
+		),
+		minOrderAgeMs: parseEnvNumber(
+			"MIN_ORDER_AGE_MS",
+			DEFAULT_CONFIG.minOrderAgeMs,
+		),
+		orderOrphanGraceMs: parseEnvNumber(
+			"ORDER_ORPHAN_GRACE_MS",
+			DEFAULT_CONFIG.orderOrphanGraceMs,
+		),
+	};
+}
+
+// Session-wide order action budget; exchange limits are per account, so there
+// are no per-market overrides (null = unlimited)
+function buildRateLimiterConfig(): RateLimiterConfig | null {
+	const actionsPerSecond = parseEnvNumber(
+		"ORDER_RATE_LIMIT",
+		DEFAULT_RATE_LIMITER_CONFIG.actionsPerSecond,
+	);
+	if (actionsPerSecond <= 0) return null;
+	return {
+		...DEFAULT_RATE_LIMITER_CONFIG,
+		actionsPerSecond,
+		burst: parseEnvNumber(
+			"ORDER_RATE_BURST",
+			DEFAULT_RATE_LIMITER_CONFIG.burst,
+		),
+	};
+}
+
+// Per-market overrides: <NAME>_<SYMBOL> (e.g. FUNDING_SKEW_BTC=true)
+function buildMarketConfig(
+	base: Omit<MarketMakerConfig, "symbol">,
+	symbol: string,
+): MarketMakerConfig {
+	return {
+		...base,
+		symbol,
+		fundingSkew: parseEnvBoolean(`FUNDING_SKEW_${symbol}`, base.fundingSkew),
+		fundingSkewWeight: parseEnvNumber(
+			`FUNDING_SKEW_WEIGHT_${symbol}`,
+			base.fundingSkewWeight,
+		),
+		maxFundingSkewBps: parseEnvNumber(
+			`MAX_FUNDING_SKEW_BPS_${symbol}`,
+			base.maxFundingSkewBps,
+		),
+	};
+}
+
+// Symbols from CLI args (npm run bot -- BTC ETH) or SYMBOLS env (BTC,ETH)
+function parseSymbols(): string[] {
+	const args = process.argv.slice(2);
+	const raw = args.length > 0 ? args : (process.env.SYMBOLS ?? "").split(",");
+	const symbols = raw.map((s) => s.trim().toUpperCase()).filter(Boolean);
+	return Array.from(new Set(symbols));
+}
+
 function main(): void {
-	const symbol = process.argv[2]?.toUpperCase();
+	const symbols = parseSymbols();
 
-	if (!symbol) {
-		console.error("Usage: npm run bot -- <symbol>");
-		console.error("Example: npm run bot -- BTC");
+	if (symbols.length === 0) {
+		console.error("Usage: npm run bot -- <symbol> [symbol...]");
+		console.error("Example: npm run bot -- BTC ETH SOL");
 		process.exit(1);
 	}
 
@@ -48,43 +401,35 @@ function main(): void {
 		process.exit(1);
 	}
 
-	const referenceFeed = parseReferenceFeed();
-
-	const bot = new MarketMaker(
-		{
-			...DEFAULT_CONFIG,
-			referenceFeed,
-			enableFeedFailover: parseEnvBoolean(
-				"ENABLE_FEED_FAILOVER",
-				DEFAULT_CONFIG.enableFeedFailover,
-			),
-			spreadBps: parseEnvNumber("SPREAD_BPS", DEFAULT_CONFIG.spreadBps),
-			takeProfitBps: parseEnvNumber(
-				"TAKE_PROFIT_BPS",
-				DEFAULT_CONFIG.takeProfitBps,
-			),
-			closeThresholdUsd: parseEnvNumber(
-				"CLOSE_THRESHOLD_USD",
-				DEFAULT_CONFIG.closeThresholdUsd,
-			),
-			orderSizeUsd: parseEnvNumber(
-				"ORDER_SIZE_USD",
-				DEFAULT_CONFIG.orderSizeUsd,
-			),
-			requoteThresholdBps: parseEnvNumber(
-				"REQUOTE_THRESHOLD_BPS",
-				DEFAULT_CONFIG.requoteThresholdBps,
-			),
-			minOrderAgeMs: parseEnvNumber(
-				"MIN_ORDER_AGE_MS",
-				DEFAULT_CONFIG.minOrderAgeMs,
-			),
-			symbol,
-		},
+	const baseConfig = buildBaseConfig();
+	const rateLimit = buildRateLimiterConfig();
+	const configError =
+		(baseConfig.referenceFeed === "composite"
+			? validateCompositeConfig(baseConfig.compositeMethod, [
+					baseConfig.compositeBinanceWeight,
+					baseConfig.compositeCoinbaseWeight,
+					baseConfig.compositeOkxWeight,
+					baseConfig.compositeBybitWeight,
+					baseConfig.compositeKrakenWeight,
+				])
+			: null) ??
+		validateBinanceDepthConfig({
+			mode: baseConfig.binancePriceMode,
+			levels: baseConfig.binanceDepthLevels,
+			vwapNotionalUsd: baseConfig.binanceVwapNotionalUsd,
+		}) ??
+		(rateLimit ? validateRateLimiterConfig(rateLimit) : null);
+	if (configError) {
+		console.error(`Invalid configuration: ${configError}`);
+		process.exit(1);
+	}
+	const session = new MarketMakerSession(
+		symbols.map((symbol) => buildMarketConfig(baseConfig, symbol)),
 		privateKey,
+		rateLimit,
 	);
 
-	bot.run().catch((err) => {
+	session.run().catch((err) => {
 		log.error("Fatal error:", err);
 		process.exit(1);
 	});
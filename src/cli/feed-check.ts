@@ -0,0 +1,174 @@
+// Feed Connection Check CLI
+// Drives WebSocketPriceFeed against a local WS server: connect, server drop,
+// stale stream and close()/connect() churn. Exits 1 on the first failed check.
+
+import { type WebSocket, WebSocketServer } from "ws";
+import { type FeedState, WebSocketPriceFeed } from "../pricing/ws-feed.js";
+import type { MidPrice } from "../types.js";
+import { log } from "../utils/logger.js";
+
+const STEP_TIMEOUT_MS = 5000;
+
+// Minimal venue: {"b": bid, "a": ask} per message
+class LocalPriceFeed extends WebSocketPriceFeed {
+	constructor(url: string) {
+		super("Local", url, {
+			staleThresholdMs: 300,
+			staleCheckIntervalMs: 50,
+			reconnectBaseMs: 50,
+			reconnectMaxMs: 200,
+		});
+	}
+
+	protected subscribeMessage(): string | null {
+		return JSON.stringify({ op: "subscribe" });
+	}
+
+	protected parseMessage(raw: string): MidPrice | null {
+		const msg = JSON.parse(raw) as { b?: number; a?: number };
+		if (msg.b === undefined || msg.a === undefined) return null;
+		return {
+			mid: (msg.b + msg.a) / 2,
+			bid: msg.b,
+			ask: msg.a,
+			timestamp: Date.now(),
+		};
+	}
+}
+
+// Local server; broadcasts a price to every open client on demand
+class LocalServer {
+	readonly wss: WebSocketServer;
+	readonly clients = new Set<WebSocket>();
+	subscribes = 0;
+
+	constructor() {
+		this.wss = new WebSocketServer({ port: 0 });
+		this.wss.on("connection", (client) => {
+			this.clients.add(client);
+			client.on("message", () => this.subscribes++);
+			client.on("close", () => this.clients.delete(client));
+		});
+	}
+
+	get url(): string {
+		const address = this.wss.address();
+		const port = typeof address === "object" && address ? address.port : 0;
+		return `ws://127.0.0.1:${port}`;
+	}
+
+	clientCount(): number {
+		return this.clients.size;
+	}
+
+	send(bid: number, ask: number): void {
+		for (const client of this.clients) {
+			client.send(JSON.stringify({ b: bid, a: ask }));
+		}
+	}
+
+	dropAll(): void {
+		for (const client of this.clients) {
+			client.terminate();
+		}
+	}
+
+	close(): Promise<void> {
+		this.dropAll();
+		return new Promise((resolve) => this.wss.close(() => resolve()));
+	}
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function waitFor(what: string, condition: () => boolean): Promise<void> {
+	const deadline = Date.now() + STEP_TIMEOUT_MS;
+	while (!condition()) {
+		if (Date.now() > deadline) {
+			throw new Error(`Timed out waiting for ${what}`);
+		}
+		await sleep(10);
+	}
+}
+
+async function main(): Promise<void> {
+	const server = new LocalServer();
+	await new Promise<void>((resolve) => server.wss.on("listening", resolve));
+
+	const feed = new LocalPriceFeed(server.url);
+	const states: FeedState[] = [];
+	feed.onStateChange = (state) => states.push(state);
+
+	try {
+		// 1. Connect, subscribe, receive a price
+		feed.connect();
+		await waitFor("connected", () => feed.getState() === "connected");
+		await waitFor("subscribe", () => server.subscribes === 1);
+		server.send(100, 102);
+		await waitFor("price", () => feed.getMidPrice()?.mid === 101);
+		log.info("OK  connect + subscribe + price");
+
+		// 2. Server drops the connection: backoff, reconnect, resubscribe
+		server.dropAll();
+		await waitFor("reconnect", () => feed.getStats().connects === 2);
+		await waitFor("resubscribe", () => server.subscribes === 2);
+		if (!states.includes("reconnecting")) {
+			throw new Error(`No reconnecting state in ${states.join(" → ")}`);
+		}
+		log.info("OK  server drop → reconnect");
+
+		// 3. Stream goes quiet: stale check forces a reconnect
+		await waitFor("stale reconnect", () => feed.getStats().connects === 3);
+		log.info("OK  stale stream → reconnect");
+
+		// 4. close() then connect() at once: the old socket's late close must not
+		// clear the new connection
+		const connectsBefore = feed.getStats().connects;
+		feed.close();
+		feed.connect();
+		await waitFor(
+			"connected after churn",
+			() => feed.getState() === "connected",
+		);
+		await sleep(150); // Let the old socket's close event arrive
+		server.send(200, 202);
+		await waitFor("price after churn", () => feed.getMidPrice()?.mid === 201);
+		const connects = feed.getStats().connects - connectsBefore;
+		if (
+			feed.getState() !== "connected" ||
+			connects !== 1 ||
+			server.clientCount() !== 1
+		) {
+			throw new Error(
+				`After churn: state=${feed.getState()} connects=${connects} clients=${server.clientCount()}`,
+			);
+		}
+		log.info("OK  close()/connect() churn keeps the new socket");
+
+		// 5. close() stays closed
+		feed.close();
+		await sleep(300);
+		if (feed.getState() !== "closed" || server.clientCount() !== 0) {
+			throw new Error(
+				`After close: state=${feed.getState()} clients=${server.clientCount()}`,
+			);
+		}
+		log.info("OK  close() stays closed");
+	} finally {
+		feed.close();
+		await server.close();
+	}
+}
+
+main().then(
+	() => {
+		log.info("Feed connection checks passed");
+		process.exit(0);
+	},
+	(err) => {
+		log.error("Feed connection check failed:", err);
+		process.exit(1);
+	},
+);
@@ -7,16 +7,29 @@ import { Connection } from "@solana/web3.js";
 import blessed from "blessed";
 import { BinancePriceFeed } from "../pricing/binance.js";
 import {
-	FairPriceCalculator,
-	type FairPriceConfig,
+	formatLatency,
+	isPairable,
+	LatencyTracker,
+} from "../pricing/event-time.js";
+import {
+	createFairPriceProvider,
+	FAIR_PRICE_MODELS,
+	type FairPriceModel,
+	type FairPriceProvider,
 } from "../pricing/fair-price.js";
-import { ZoOrderbookStream } from "../sdk/orderbook.js";
+import { type FillEstimate, ZoOrderbookStream } from "../sdk/orderbook.js";
+import { type TradeEvent, ZoTradesStream } from "../sdk/trades.js";
 import { log } from "../utils/logger.js";
 
 const FAIR_PRICE_WINDOW_MS = 5 * 60 * 1000;
 const FAIR_PRICE_MIN_SAMPLES = 10;
+const FAIR_PRICE_HALF_LIFE_MS = 30_000;
+const KALMAN_PROCESS_NOISE_BPS = 0.2;
+const KALMAN_MEASUREMENT_NOISE_BPS = 2;
 const STATS_WINDOW_MS = 60_000;
 const ORDERBOOK_DEPTH = 10;
+const DEPTH_BAND_BPS = 10; // Resting liquidity shown within this distance of mid
+const IMPACT_NOTIONAL_USD = 10_000; // Taker size for the impact line
 const MAX_TRADES = 100;
 const RENDER_INTERVAL_MS = 100;
 
@@ -25,25 +38,21 @@ interface PriceState {
 	bid: number;
 	ask: number;
 	timestamp: number;
+	eventTime?: number;
 }
 
-interface OrderbookLevel {
-	price: number;
-	size: number;
-}
-
-interface Trade {
-	time: number;
-	side: "buy" | "sell";
-	price: number;
-	size: number;
+function parseFairPriceModel(): FairPriceModel {
+	const raw = (process.env.FAIR_PRICE_MODEL ?? "").trim().toLowerCase();
+	return FAIR_PRICE_MODELS.find((model) => model === raw) ?? "median";
 }
 
 class MarketMonitor {
 	private nord!: Nord;
 	private binanceFeed!: BinancePriceFeed;
 	private zoOrderbook!: ZoOrderbookStream;
-	private fairPriceCalc!: FairPriceCalculator;
+	// All fair price models run side by side; FAIR_PRICE_MODEL picks the headline one
+	private fairPriceModels = new Map<FairPriceModel, FairPriceProvider>();
+	private readonly selectedModel: FairPriceModel = parseFairPriceModel();
 
 	private binancePrice: PriceState | null = null;
 	private zoPrice: PriceState | null = null;
@@ -54,12 +63,12 @@ class MarketMonitor {
 	private zoUpdates: number[] = [];
 	private fairPriceUpdates: number[] = [];
 
-	// Orderbook state (from WebSocket deltas for display)
-	private orderbookBids = new Map<number, number>();
-	private orderbookAsks = new Map<number, number>();
+	// Feed latency (receive - venue event time)
+	private binanceLatency = new LatencyTracker();
 
 	// Trades
-	private recentTrades: Trade[] = [];
+	private tradesStream!: ZoTradesStream;
+	private recentTrades: TradeEvent[] = [];
 
 	// Render throttling
 	private lastRenderTime = 0;
@@ -115,18 +124,26 @@ class MarketMonitor {
 
 		this.addLog(`Market: ${market.symbol}, Binance: ${binanceSymbol}`);
 
-		// Initialize fair price calculator
-		const fairPriceConfig: FairPriceConfig = {
-			windowMs: FAIR_PRICE_WINDOW_MS,
-			minSamples: FAIR_PRICE_MIN_SAMPLES,
-		};
-		this.fairPriceCalc = new FairPriceCalculator(fairPriceConfig);
+		// Initialize fair price models
+		for (const model of FAIR_PRICE_MODELS) {
+			this.fairPriceModels.set(
+				model,
+				createFairPriceProvider(model, {
+					minSamples: FAIR_PRICE_MIN_SAMPLES,
+					windowMs: FAIR_PRICE_WINDOW_MS,
+					ewmaHalfLifeMs: FAIR_PRICE_HALF_LIFE_MS,
+					kalmanProcessNoiseBps: KALMAN_PROCESS_NOISE_BPS,
+					kalmanMeasurementNoiseBps: KALMAN_MEASUREMENT_NOISE_BPS,
+				}),
+			);
+		}
 
 		// Setup Binance feed
 		this.binanceFeed = new BinancePriceFeed(binanceSymbol);
 		this.binanceFeed.onPrice = (price) => {
 			this.binancePrice = price;
 			this.recordUpdate(this.binanceUpdates);
+			this.binanceLatency.record(price);
 			this.updateFairPrice();
 			this.render();
 		};
@@ -140,19 +157,20 @@ class MarketMonitor {
 			this.render();
 		};
 
-		// Set up orderbook update handler for depth display
-		this.zoOrderbook.onOrderbookUpdate = (bids, asks) => {
-			this.handleOrderbookUpdate(bids, asks);
+		// Redraw depth on every book change
+		this.zoOrderbook.onOrderbookUpdate = () => {
+			this.scheduleRender();
 		};
 
 		// Subscribe to trades
-		const tradesSub = this.nord.subscribeTrades(market.symbol);
-		tradesSub.on("message", (data: unknown) => {
-			this.handleTradesUpdate(data);
-		});
+		this.tradesStream = new ZoTradesStream(this.nord, market.symbol);
+		this.tradesStream.onTrade = (trade) => {
+			this.handleTrade(trade);
+		};
 
 		// Start connections
 		this.binanceFeed.connect();
+		this.tradesStream.connect();
 		await this.zoOrderbook.connect();
 
 		this.addLog("Connected! Press 'q' to quit.");
@@ -286,33 +304,9 @@ class MarketMonitor {
 		this.screen.render();
 	}
 
-	private handleOrderbookUpdate(
-		bids: Map<number, number>,
-		asks: Map<number, number>,
-	): void {
-		this.orderbookBids = new Map(bids);
-		this.orderbookAsks = new Map(asks);
-		this.scheduleRender();
-	}
-
-	private handleTradesUpdate(rawData: unknown): void {
-		const data = rawData as {
-			trades?: Array<{ side: string; price: number; size: number }>;
-		};
-
-		if (!data.trades) return;
-
-		for (const t of data.trades) {
-			// side: "ask" = taker bought (hit the ask), "bid" = taker sold (hit the bid)
-			const trade: Trade = {
-				time: Date.now(),
-				side: t.side === "ask" ? "buy" : "sell",
-				price: t.price,
-				size: t.size,
-			};
-			// Add to front (newest first)
-			this.recentTrades.unshift(trade);
-		}
+	private handleTrade(trade: TradeEvent): void {
+		// Add to front (newest first)
+		this.recentTrades.unshift(trade);
 
 		// Keep limited history
 		if (this.recentTrades.length > MAX_TRADES) {
@@ -324,14 +318,16 @@ class MarketMonitor {
 
 	private updateFairPrice(): void {
 		if (this.binancePrice && this.zoPrice) {
-			if (
-				Math.abs(this.binancePrice.timestamp - this.zoPrice.timestamp) < 1000
-			) {
-				this.fairPriceCalc.addSample(this.zoPrice.mid, this.binancePrice.mid);
+			if (isPairable(this.binancePrice, this.zoPrice)) {
+				for (const provider of this.fairPriceModels.values()) {
+					provider.addSample(this.zoPrice.mid, this.binancePrice.mid);
+				}
 			}
 
-			const fp = this.fairPriceCalc.getFairPrice(this.binancePrice.mid);
-			if (fp !== null) {
+			const fp = this.fairPriceModels
+				.get(this.selectedModel)
+				?.getFairPrice(this.binancePrice.mid);
+			if (fp != null) {
 				const now = Date.now();
 				if (!this.fairPrice || this.fairPrice.price !== fp) {
 					this.recordUpdate(this.fairPriceUpdates);
@@ -408,7 +404,10 @@ class MarketMonitor {
 		if (this.binancePrice) {
 			const price = this.formatPrice(this.binancePrice.mid);
 			const rate = `${this.getUpdatesPerSecond(this.binanceUpdates).toFixed(1)}/s`;
-			lines.push(` Binance $${price} {gray-fg}${rate}{/gray-fg}`);
+			const latency = formatLatency(this.binanceLatency.getPercentiles());
+			lines.push(
+				` Binance $${price} {gray-fg}${rate} lat ${latency}{/gray-fg}`,
+			);
 		} else {
 			lines.push(` Binance {yellow-fg}--{/yellow-fg}`);
 		}
@@ -430,16 +429,61 @@ class MarketMonitor {
 			lines.push(` Offset  ${sign}${offsetBps}bps`);
 		}
 
-		// Median offset (for fair price)
-		const state = this.fairPriceCalc.getState();
-		if (state.offset !== null && this.binancePrice) {
-			const medianBps = (
+		// 01 liquidity near mid and taker impact
+		if (this.zoPrice) {
+			const bidDepth = this.zoOrderbook.getDepthWithinBps(
+				"bid",
+				DEPTH_BAND_BPS,
+			);
+			const askDepth = this.zoOrderbook.getDepthWithinBps(
+				"ask",
+				DEPTH_BAND_BPS,
+			);
+			lines.push(
+				` Depth   $${this.formatUsd(bidDepth.notional)} / $${this.formatUsd(askDepth.notional)} {gray-fg}±${DEPTH_BAND_BPS}bps{/gray-fg}`,
+			);
+			const mid = this.zoPrice.mid;
+			const impactBps = (fill: FillEstimate | null) =>
+				fill?.complete
+					? `${((Math.abs(fill.vwap - mid) / mid) * 10000).toFixed(1)}bps`
+					: "--";
+			const sell = this.zoOrderbook.estimateFill(
+				"bid",
+				IMPACT_NOTIONAL_USD,
+				"notional",
+			);
+			const buy = this.zoOrderbook.estimateFill(
+				"ask",
+				IMPACT_NOTIONAL_USD,
+				"notional",
+			);
+			lines.push(
+				` Impact  ${impactBps(sell)} / ${impactBps(buy)} {gray-fg}$${this.formatUsd(IMPACT_NOTIONAL_USD)}{/gray-fg}`,
+			);
+		}
+
+		// Taker flow over the trades stream window
+		const flow = this.tradesStream.getFlow();
+		if (flow && flow.trades > 0) {
+			const sign = flow.imbalance >= 0 ? "+" : "";
+			lines.push(
+				` Flow    ${sign}${(flow.imbalance * 100).toFixed(0)}% $${this.formatUsd(flow.notional)} {gray-fg}${flow.windowMs / 1000}s{/gray-fg}`,
+			);
+		}
+
+		// Offset estimate per fair price model (* = selected)
+		for (const [model, provider] of this.fairPriceModels) {
+			const state = provider.getState();
+			if (state.offset === null || !this.binancePrice) continue;
+			const offsetBps = (
 				(state.offset / this.binancePrice.mid) *
 				10000
 			).toFixed(1);
 			const sign = state.offset >= 0 ? "+" : "";
+			const marker = model === this.selectedModel ? "*" : " ";
+			const label = `${marker}${model.charAt(0).toUpperCase()}${model.slice(1)}`;
 			lines.push(
-				` Median  ${sign}${medianBps}bps {gray-fg}(${state.samples}s){/gray-fg}`,
+				`${label.padEnd(9)}${sign}${offsetBps}bps {gray-fg}(${state.samples}s){/gray-fg}`,
 			);
 		}
 
@@ -447,14 +491,9 @@ class MarketMonitor {
 	}
 
 	private renderOrderbook(): void {
-		const sortedBids = this.getSortedLevels(this.orderbookBids, "desc").slice(
-			0,
-			ORDERBOOK_DEPTH,
-		);
-		const sortedAsks = this.getSortedLevels(this.orderbookAsks, "asc").slice(
-			0,
-			ORDERBOOK_DEPTH,
-		);
+		const depth = this.zoOrderbook.getDepth(ORDERBOOK_DEPTH);
+		const sortedBids = depth.bids;
+		const sortedAsks = depth.asks;
 
 		const lines: string[] = [];
 		lines.push("");
@@ -506,7 +545,7 @@ class MarketMonitor {
 		this.tradesBox.setContent(lines.join("\n"));
 	}
 
-	private formatTrade(trade: Trade): string {
+	private formatTrade(trade: TradeEvent): string {
 		const d = new Date(trade.time);
 		const timeStr = `${d.toLocaleTimeString("ja-JP", {
 			hour12: false,
@@ -525,17 +564,6 @@ class MarketMonitor {
 		return `${timeStr}  ${price}  {${color}-fg}${size}  ${usd}{/${color}-fg}`;
 	}
 
-	private getSortedLevels(
-		levels: Map<number, number>,
-		order: "asc" | "desc",
-	): OrderbookLevel[] {
-		return Array.from(levels.entries())
-			.map(([price, size]) => ({ price, size }))
-			.sort((a, b) =>
-				order === "asc" ? a.price - b.price : b.price - a.price,
-			);
-	}
-
 	private addLog(message: string): void {
 		// Message already has timestamp from logger, just display it
 		this.logBox.log(message);
@@ -546,6 +574,7 @@ class MarketMonitor {
 		this.restoreConsole?.();
 		this.binanceFeed?.close();
 		this.zoOrderbook?.close();
+		this.tradesStream?.close();
 		this.screen.destroy();
 		process.exit(0);
 	}
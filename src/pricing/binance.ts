@@ -1,187 +1,192 @@
-import WebSocket from "ws";
-import type { MidPrice, PriceCallback } from "../types.js";
-import { log } from "../utils/logger.js";
+// Binance USDT perpetual reference feed
+// bookTicker: mid of best bid/ask
+// weighted:   side price = Σ(price * qty) / Σqty over the top N levels
+// vwap:       side price = average fill price for vwapNotionalUsd walking the book
+// reference mid = (bid side price + ask side price) / 2
+// Depth modes subscribe to the smallest partial-depth stream (5/10/20) holding
+// N levels and use exactly the top N of it
+
+import type { MidPrice } from "../types.js";
+import { parseEventTime } from "./event-time.js";
+import { type WebSocketFeedOptions, WebSocketPriceFeed } from "./ws-feed.js";
 
 const BINANCE_FUTURES_WS = "wss://fstream.binance.com/ws";
-const PING_INTERVAL_MS = 30_000; // Send ping every 30s
-const PONG_TIMEOUT_MS = 10_000; // Expect pong within 10s
-const STALE_THRESHOLD_MS = 60_000; // Consider stale after 60s without message
-const STALE_CHECK_INTERVAL_MS = 10_000;
+const DEPTH_STREAM_LEVELS = [5, 10, 20]; // Partial depth sizes Binance offers
+const MAX_DEPTH_LEVELS = DEPTH_STREAM_LEVELS[DEPTH_STREAM_LEVELS.length - 1];
 
 export type { MidPrice } from "../types.js";
 
-export class BinancePriceFeed {
-	private ws: WebSocket | null = null;
-	private latestPrice: MidPrice | null = null;
-	private reconnectTimeout: NodeJS.Timeout | null = null;
-	private pingInterval: NodeJS.Timeout | null = null;
-	private pongTimeout: NodeJS.Timeout | null = null;
-	private staleCheckInterval: NodeJS.Timeout | null = null;
-	private lastMessageTime = 0;
-	private isClosing = false;
-	private readonly wsUrl: string;
-
-	// Public callback - can be set after construction
-	onPrice: PriceCallback | null = null;
-
-	constructor(symbol: string = "btcusdt") {
-		this.wsUrl = `${BINANCE_FUTURES_WS}/${symbol.toLowerCase()}@bookTicker`;
-	}
+export type BinancePriceMode = "bookTicker" | "weighted" | "vwap";
 
-	connect(): void {
-		if (this.ws) return;
-
-		log.info(`Connecting to Binance Futures (${this.wsUrl})...`);
-
-		this.ws = new WebSocket(this.wsUrl);
-
-		this.ws.on("open", () => {
-			log.info("Binance connected");
-			this.lastMessageTime = Date.now();
-			this.startPingInterval();
-			this.startStaleCheck();
-		});
-
-		this.ws.on("message", (data: Buffer) => {
-			this.lastMessageTime = Date.now();
-			try {
-				const msg = JSON.parse(data.toString()) as {
-					b: string; // best bid
-					a: string; // best ask
-				};
-
-				const bid = parseFloat(msg.b);
-				const ask = parseFloat(msg.a);
-				const mid = (bid + ask) / 2;
-
-				this.latestPrice = {
-					mid,
-					bid,
-					ask,
-					timestamp: Date.now(),
-				};
-
-				if (this.onPrice) {
-					this.onPrice(this.latestPrice);
-				}
-			} catch {
-				// Ignore parse errors
-			}
-		});
-
-		// Handle ping from server
-		this.ws.on("ping", (data: Buffer) => {
-			this.ws?.pong(data);
-		});
-
-		// Handle pong response (clears timeout)
-		this.ws.on("pong", () => {
-			this.clearPongTimeout();
-		});
-
-		this.ws.on("error", (err: Error) => {
-			log.error("Binance WebSocket error:", err.message);
-		});
-
-		this.ws.on("close", () => {
-			log.warn("Binance disconnected");
-			this.cleanup();
-			if (!this.isClosing) {
-				this.scheduleReconnect();
-			}
-		});
+export interface BinanceDepthConfig {
+	readonly mode: BinancePriceMode;
+	readonly levels: number; // Levels per side used by the depth modes (1-20)
+	readonly vwapNotionalUsd: number; // Notional walked per side in vwap mode
+}
+
+const DEFAULT_DEPTH_CONFIG: BinanceDepthConfig = {
+	mode: "bookTicker",
+	levels: 20,
+	vwapNotionalUsd: 50_000,
+};
+
+// Error message for settings that would leave the feed silent, null if valid
+export function validateBinanceDepthConfig(
+	config: BinanceDepthConfig,
+): string | null {
+	if (config.mode === "bookTicker") return null;
+	if (
+		!Number.isInteger(config.levels) ||
+		config.levels < 1 ||
+		config.levels > MAX_DEPTH_LEVELS
+	) {
+		return `Binance depth levels must be an integer from 1 to ${MAX_DEPTH_LEVELS} (got ${config.levels})`;
+	}
+	if (
+		config.mode === "vwap" &&
+		!(Number.isFinite(config.vwapNotionalUsd) && config.vwapNotionalUsd > 0)
+	) {
+		return `Binance vwap notional must be above 0 (got ${config.vwapNotionalUsd})`;
 	}
+	return null;
+}
 
-	private startPingInterval(): void {
-		this.stopPingInterval();
+// Partial depth stream that holds the requested levels
+export function binanceDepthStreamLevels(levels: number): number {
+	return DEPTH_STREAM_LEVELS.find((n) => n >= levels) ?? MAX_DEPTH_LEVELS;
+}
 
-		this.pingInterval = setInterval(() => {
-			if (this.ws?.readyState === WebSocket.OPEN) {
-				this.ws.ping();
-				this.startPongTimeout();
-			}
-		}, PING_INTERVAL_MS);
-	}
+// [price, qty] as parsed numbers, best first
+type DepthLevel = [number, number];
 
-	private stopPingInterval(): void {
-		if (this.pingInterval) {
-			clearInterval(this.pingInterval);
-			this.pingInterval = null;
-		}
-	}
+function parseLevels(levels: string[][] | undefined): DepthLevel[] {
+	return (levels ?? [])
+		.map((level): DepthLevel => [Number(level[0]), Number(level[1])])
+		.filter(
+			([price, qty]) =>
+				Number.isFinite(price) && Number.isFinite(qty) && price > 0 && qty > 0,
+		);
+}
 
-	private startPongTimeout(): void {
-		this.clearPongTimeout();
+function weightedPrice(levels: DepthLevel[]): number | null {
+	let notional = 0;
+	let qty = 0;
+	for (const [price, size] of levels) {
+		notional += price * size;
+		qty += size;
+	}
+	return qty > 0 ? notional / qty : null;
+}
 
-		this.pongTimeout = setTimeout(() => {
-			log.warn("Binance pong timeout - connection dead");
-			this.ws?.terminate(); // Force close
-		}, PONG_TIMEOUT_MS);
+// Uses the whole visible book if it holds less than the target notional
+function vwapPrice(
+	levels: DepthLevel[],
+	targetNotional: number,
+): number | null {
+	let notional = 0;
+	let qty = 0;
+	for (const [price, size] of levels) {
+		const take = Math.min(size, (targetNotional - notional) / price);
+		notional += take * price;
+		qty += take;
+		if (notional >= targetNotional) break;
 	}
+	return qty > 0 ? notional / qty : null;
+}
 
-	private clearPongTimeout(): void {
-		if (this.pongTimeout) {
-			clearTimeout(this.pongTimeout);
-			this.pongTimeout = null;
+export class BinancePriceFeed extends WebSocketPriceFeed {
+	private readonly depth: BinanceDepthConfig;
+	// Local partial-depth book (each message replaces the top N levels)
+	private bids: DepthLevel[] = [];
+	private asks: DepthLevel[] = [];
+
+	constructor(
+		symbol: string = "btcusdt",
+		options: WebSocketFeedOptions = {},
+		depth: Partial<BinanceDepthConfig> = {},
+	) {
+		const config = { ...DEFAULT_DEPTH_CONFIG, ...depth };
+		const invalid = validateBinanceDepthConfig(config);
+		if (invalid) {
+			throw new Error(invalid);
 		}
+		const stream =
+			config.mode === "bookTicker"
+				? "bookTicker"
+				: `depth${binanceDepthStreamLevels(config.levels)}@100ms`;
+		super(
+			"Binance",
+			`${BINANCE_FUTURES_WS}/${symbol.toLowerCase()}@${stream}`,
+			options,
+		);
+		this.depth = config;
 	}
 
-	private cleanup(): void {
-		this.stopPingInterval();
-		this.clearPongTimeout();
-		this.stopStaleCheck();
-		this.ws = null;
+	// Stream is selected by URL
+	protected subscribeMessage(): string | null {
+		return null;
 	}
 
-	private startStaleCheck(): void {
-		this.stopStaleCheck();
-
-		this.staleCheckInterval = setInterval(() => {
-			if (this.isClosing) return;
-
-			const now = Date.now();
-			const timeSinceMessage = now - this.lastMessageTime;
-
-			if (this.lastMessageTime > 0 && timeSinceMessage > STALE_THRESHOLD_MS) {
-				log.warn(
-					`Binance stale (${timeSinceMessage}ms since last message). Reconnecting...`,
-				);
-				this.ws?.terminate();
+	protected parseMessage(raw: string): MidPrice | null {
+		try {
+			const msg = JSON.parse(raw) as {
+				b: string | string[][]; // best bid (bookTicker) or bid levels (depth)
+				a: string | string[][]; // best ask (bookTicker) or ask levels (depth)
+				E?: number; // event time (futures only)
+				T?: number; // transaction time (futures only)
+			};
+			const eventTime = parseEventTime(msg.T ?? msg.E);
+
+			if (this.depth.mode !== "bookTicker") {
+				if (!Array.isArray(msg.b) || !Array.isArray(msg.a)) return null;
+				return this.parseDepth(msg.b, msg.a, eventTime);
 			}
-		}, STALE_CHECK_INTERVAL_MS);
-	}
 
-	private stopStaleCheck(): void {
-		if (this.staleCheckInterval) {
-			clearInterval(this.staleCheckInterval);
-			this.staleCheckInterval = null;
+			const bid = parseFloat(msg.b as string);
+			const ask = parseFloat(msg.a as string);
+			if (!Number.isFinite(bid) || !Number.isFinite(ask)) return null;
+
+			return {
+				mid: (bid + ask) / 2,
+				bid,
+				ask,
+				timestamp: Date.now(),
+				eventTime,
+			};
+		} catch {
+			// Ignore parse errors
+			return null;
 		}
 	}
 
-	private scheduleReconnect(): void {
-		if (this.reconnectTimeout) return;
-
-		log.info("Reconnecting to Binance in 3s...");
-		this.reconnectTimeout = setTimeout(() => {
-			this.reconnectTimeout = null;
-			this.connect();
-		}, 3000);
-	}
-
-	getMidPrice(): MidPrice | null {
-		return this.latestPrice;
+	protected onDisconnect(): void {
+		this.bids = [];
+		this.asks = [];
 	}
 
-	close(): void {
-		this.isClosing = true;
-		if (this.reconnectTimeout) {
-			clearTimeout(this.reconnectTimeout);
-			this.reconnectTimeout = null;
-		}
-		this.cleanup();
-		if (this.ws) {
-			this.ws.close();
-			this.ws = null;
-		}
+	// Reports the derived side prices as bid/ask
+	private parseDepth(
+		rawBids: string[][],
+		rawAsks: string[][],
+		eventTime: number | undefined,
+	): MidPrice | null {
+		this.bids = parseLevels(rawBids).slice(0, this.depth.levels);
+		this.asks = parseLevels(rawAsks).slice(0, this.depth.levels);
+
+		const sidePrice = (levels: DepthLevel[]) =>
+			this.depth.mode === "vwap"
+				? vwapPrice(levels, this.depth.vwapNotionalUsd)
+				: weightedPrice(levels);
+		const bid = sidePrice(this.bids);
+		const ask = sidePrice(this.asks);
+		if (bid === null || ask === null) return null;
+
+		return {
+			mid: (bid + ask) / 2,
+			bid,
+			ask,
+			timestamp: Date.now(),
+			eventTime,
+		};
 	}
 }
@@ -0,0 +1,51 @@
+// Order book fair price adjustment
+// imbalance:  offset = weight * I * half_spread, I = (bidVol - askVol) / (bidVol + askVol) over top N
+// microprice: offset = weight * (microprice - mid), microprice = (bid * askSize + ask * bidSize) / (bidSize + askSize)
+
+import type { OrderbookDepth } from "../sdk/orderbook.js";
+
+export type BookAdjustmentMode = "off" | "imbalance" | "microprice";
+
+export interface BookAdjustmentConfig {
+	readonly mode: BookAdjustmentMode;
+	readonly levels: number; // Top N levels per side for imbalance
+	readonly weight: number; // Fraction of the raw signal applied to fair price
+	readonly maxBps: number; // Cap on the absolute adjustment (bps of mid)
+}
+
+function sumSize(levels: OrderbookDepth["bids"]): number {
+	return levels.reduce((total, level) => total + level.size, 0);
+}
+
+// Price offset to add to fair price, 0 if the book is empty or mode is off
+export function computeBookAdjustment(
+	depth: OrderbookDepth,
+	config: BookAdjustmentConfig,
+): number {
+	if (config.mode === "off") return 0;
+
+	const bestBid = depth.bids[0];
+	const bestAsk = depth.asks[0];
+	if (!bestBid || !bestAsk) return 0;
+
+	const mid = (bestBid.price + bestAsk.price) / 2;
+	let offset = 0;
+
+	if (config.mode === "imbalance") {
+		const bidVol = sumSize(depth.bids.slice(0, config.levels));
+		const askVol = sumSize(depth.asks.slice(0, config.levels));
+		if (bidVol + askVol <= 0) return 0;
+		const imbalance = (bidVol - askVol) / (bidVol + askVol);
+		offset = imbalance * ((bestAsk.price - bestBid.price) / 2);
+	} else {
+		const totalSize = bestBid.size + bestAsk.size;
+		if (totalSize <= 0) return 0;
+		const microprice =
+			(bestBid.price * bestAsk.size + bestAsk.price * bestBid.size) / totalSize;
+		offset = microprice - mid;
+	}
+
+	const maxOffset = (mid * config.maxBps) / 10000;
+	const weighted = offset * config.weight;
+	return Math.max(-maxOffset, Math.min(maxOffset, weighted));
+}
@@ -0,0 +1,89 @@
+import type { MidPrice } from "../types.js";
+import { parseEventTime } from "./event-time.js";
+import { type WebSocketFeedOptions, WebSocketPriceFeed } from "./ws-feed.js";
+
+const BYBIT_WS = "wss://stream.bybit.com/v5/public/linear";
+const PING_INTERVAL_MS = 20_000; // Bybit recommends a heartbeat every 20s
+
+export class BybitPriceFeed extends WebSocketPriceFeed {
+	private readonly symbol: string;
+	private bestBid: number | null = null;
+	private bestAsk: number | null = null;
+
+	constructor(symbol: string = "BTCUSDT", options: WebSocketFeedOptions = {}) {
+		super("Bybit", BYBIT_WS, { pingIntervalMs: PING_INTERVAL_MS, ...options });
+		this.symbol = symbol.toUpperCase();
+	}
+
+	protected subscribeMessage(): string | null {
+		return JSON.stringify({
+			op: "subscribe",
+			args: [`orderbook.1.${this.symbol}`],
+		});
+	}
+
+	// Application-level heartbeat
+	protected pingMessage(): string | null {
+		return JSON.stringify({ op: "ping" });
+	}
+
+	protected isPongMessage(raw: string): boolean {
+		try {
+			const msg = JSON.parse(raw) as { op?: string; ret_msg?: string };
+			return msg.op === "pong" || msg.ret_msg === "pong";
+		} catch {
+			return false;
+		}
+	}
+
+	protected onDisconnect(): void {
+		this.bestBid = null;
+		this.bestAsk = null;
+	}
+
+	protected parseMessage(raw: string): MidPrice | null {
+		try {
+			const msg = JSON.parse(raw) as {
+				topic?: string;
+				type?: "snapshot" | "delta";
+				ts?: number; // System time the book was generated (Unix ms)
+				cts?: number; // Matching engine time (Unix ms)
+				data?: {
+					s?: string;
+					b?: string[][]; // [price, size]
+					a?: string[][];
+				};
+			};
+			if (msg.topic !== `orderbook.1.${this.symbol}` || !msg.data) return null;
+
+			// Snapshot resets the top level; deltas only carry the side that changed
+			if (msg.type === "snapshot") {
+				this.bestBid = null;
+				this.bestAsk = null;
+			}
+			// Size 0 deletes a level; the replacement level comes in the same delta
+			const bid = msg.data.b?.find((level) => Number(level[1]) > 0);
+			const ask = msg.data.a?.find((level) => Number(level[1]) > 0);
+			if (msg.data.b?.length) this.bestBid = bid ? Number(bid[0]) : null;
+			if (msg.data.a?.length) this.bestAsk = ask ? Number(ask[0]) : null;
+
+			if (
+				this.bestBid === null ||
+				this.bestAsk === null ||
+				!Number.isFinite(this.bestBid) ||
+				!Number.isFinite(this.bestAsk)
+			) {
+				return null;
+			}
+			return {
+				bid: this.bestBid,
+				ask: this.bestAsk,
+				mid: (this.bestBid + this.bestAsk) / 2,
+				timestamp: Date.now(),
+				eventTime: parseEventTime(msg.cts ?? msg.ts),
+			};
+		} catch {
+			return null;
+		}
+	}
+}
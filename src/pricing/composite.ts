@@ -0,0 +1,171 @@
+// Composite reference price - blends several exchange feeds into one MidPrice
+// median:   weighted median of fresh source mids (robust to a single bad venue)
+//           needs MIN_MEDIAN_SOURCES fresh sources; with fewer it falls back to weighted
+// weighted: weighted mean of fresh source mids
+// Sources whose last price is older than maxAgeMs are dropped from the blend
+
+import type { MidPrice, PriceCallback, ReferenceFeed } from "../types.js";
+import { log } from "../utils/logger.js";
+
+const MIN_MEDIAN_SOURCES = 3; // Fewer sources cannot outvote a bad one
+
+export type CompositeMethod = "median" | "weighted";
+
+export interface CompositeSource {
+	readonly name: string;
+	readonly feed: ReferenceFeed;
+	readonly weight: number; // Relative weight (> 0)
+}
+
+export interface CompositeConfig {
+	readonly method: CompositeMethod;
+	readonly maxAgeMs: number; // Drop sources with no price for this long
+}
+
+interface WeightedValue {
+	value: number;
+	weight: number;
+}
+
+function weightedMean(values: WeightedValue[]): number {
+	const totalWeight = values.reduce((sum, v) => sum + v.weight, 0);
+	return values.reduce((sum, v) => sum + v.value * v.weight, 0) / totalWeight;
+}
+
+// Smallest value whose cumulative weight reaches half the total,
+// averaged with the next value on an exact tie
+function weightedMedian(values: WeightedValue[]): number {
+	const sorted = [...values].sort((a, b) => a.value - b.value);
+	const half = sorted.reduce((sum, v) => sum + v.weight, 0) / 2;
+	let cumulative = 0;
+	for (let i = 0; i < sorted.length; i++) {
+		cumulative += sorted[i].weight;
+		if (cumulative > half) return sorted[i].value;
+		if (cumulative === half && i + 1 < sorted.length) {
+			return (sorted[i].value + sorted[i + 1].value) / 2;
+		}
+	}
+	return sorted[sorted.length - 1].value;
+}
+
+// Error message for a median blend that could never outvote a bad source, null if valid
+export function validateCompositeConfig(
+	method: CompositeMethod,
+	weights: readonly number[],
+): string | null {
+	const sources = weights.filter((weight) => weight > 0).length;
+	if (method === "median" && sources < MIN_MEDIAN_SOURCES) {
+		return `Composite median needs ${MIN_MEDIAN_SOURCES}+ sources with a weight above 0 (got ${sources}); add a source or use COMPOSITE_METHOD=weighted`;
+	}
+	return null;
+}
+
+export class CompositePriceFeed implements ReferenceFeed {
+	private latestPrice: MidPrice | null = null;
+	private activeSources = new Set<string>();
+	private medianFallback = false; // Median requested but too few fresh sources
+
+	onPrice: PriceCallback | null = null;
+
+	constructor(
+		private readonly sources: readonly CompositeSource[],
+		private readonly config: CompositeConfig,
+	) {
+		for (const source of sources) {
+			source.feed.onPrice = () => this.recompute();
+		}
+	}
+
+	connect(): void {
+		log.info(
+			`Composite reference (${this.config.method}): ${this.sources
+				.map((s) => `${s.name} x${s.weight}`)
+				.join(", ")}`,
+		);
+		for (const source of this.sources) {
+			source.feed.connect();
+		}
+	}
+
+	getMidPrice(): MidPrice | null {
+		return this.latestPrice;
+	}
+
+	// Names of sources included in the last blend
+	getActiveSources(): string[] {
+		return Array.from(this.activeSources);
+	}
+
+	close(): void {
+		for (const source of this.sources) {
+			source.feed.close();
+		}
+	}
+
+	private recompute(): void {
+		const now = Date.now();
+		const fresh = this.sources.flatMap((source) => {
+			const price = source.feed.getMidPrice();
+			if (!price || now - price.timestamp > this.config.maxAgeMs) return [];
+			return [{ source, price }];
+		});
+		if (fresh.length === 0) return;
+
+		this.trackActiveSources(fresh.map((f) => f.source.name));
+
+		const blend = this.useMedian(fresh.length) ? weightedMedian : weightedMean;
+		const pick = (key: "mid" | "bid" | "ask") =>
+			blend(
+				fresh.map((f) => ({ value: f.price[key], weight: f.source.weight })),
+			);
+
+		// Event time only when every blended source carries one
+		const eventTimes = fresh.flatMap((f) => f.price.eventTime ?? []);
+		this.latestPrice = {
+			mid: pick("mid"),
+			bid: pick("bid"),
+			ask: pick("ask"),
+			timestamp: Math.max(...fresh.map((f) => f.price.timestamp)),
+			eventTime:
+				eventTimes.length === fresh.length
+					? Math.max(...eventTimes)
+					: undefined,
+		};
+		this.onPrice?.(this.latestPrice);
+	}
+
+	private useMedian(freshSources: number): boolean {
+		if (this.config.method !== "median") return false;
+		const fallback = freshSources < MIN_MEDIAN_SOURCES;
+		// Too few configured sources is rejected at startup (validateCompositeConfig)
+		if (
+			fallback !== this.medianFallback &&
+			this.sources.length >= MIN_MEDIAN_SOURCES
+		) {
+			if (fallback) {
+				log.warn(
+					`Composite: ${freshSources} fresh source(s), median falls back to weighted mean`,
+				);
+			} else {
+				log.info("Composite: median restored");
+			}
+		}
+		this.medianFallback = fallback;
+		return !fallback;
+	}
+
+	private trackActiveSources(names: string[]): void {
+		const next = new Set(names);
+		for (const name of this.activeSources) {
+			if (!next.has(name)) {
+				log.warn(`Composite: ${name} stale, dropped from reference`);
+			}
+		}
+		for (const name of next) {
+			if (!this.activeSources.has(name) && this.activeSources.size > 0) {
+				log.info(`Composite: ${name} back in reference`);
+			}
+		}
+		this.activeSources = next;
+	}
+}
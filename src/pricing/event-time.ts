@@ -0,0 +1,89 @@
+// Venue event times - sample pairing and feed latency
+// latency = local receive time - venue event time (includes clock skew between hosts)
+// isPairable uses event time only when both prices carry one, else receive time.
+// Offset samples always pair with a 01 price, which has no event time, so the
+// bot and monitor pair on receive time; only latency uses event times today
+
+import type { MidPrice } from "../types.js";
+
+export const PAIRING_TOLERANCE_MS = 1000; // Max time between paired prices
+const LATENCY_WINDOW = 500; // Recent latency samples kept per feed
+
+export interface LatencyPercentiles {
+	p50: number;
+	p90: number;
+	p99: number;
+	samples: number;
+}
+
+// Venue timestamp (Unix s/ms/us/ns as number or numeric string, or ISO 8601) → Unix ms
+export function parseEventTime(value: unknown): number | undefined {
+	if (typeof value === "string" && !/^\d+(\.\d+)?$/.test(value)) {
+		const ms = Date.parse(value);
+		return Number.isNaN(ms) ? undefined : ms;
+	}
+	if (typeof value !== "number" && typeof value !== "string") {
+		return undefined;
+	}
+	let ms = Number(value);
+	if (!Number.isFinite(ms) || ms <= 0) return undefined;
+	// Units differ by venue; scale by magnitude
+	while (ms > 1e14) ms /= 1000;
+	if (ms < 1e11) ms *= 1000;
+	return ms;
+}
+
+// Whether two prices are close enough in time to form an offset sample
+export function isPairable(
+	a: MidPrice,
+	b: MidPrice,
+	toleranceMs: number = PAIRING_TOLERANCE_MS,
+): boolean {
+	if (a.eventTime !== undefined && b.eventTime !== undefined) {
+		return Math.abs(a.eventTime - b.eventTime) < toleranceMs;
+	}
+	return Math.abs(a.timestamp - b.timestamp) < toleranceMs;
+}
+
+// Rolling window of receive - event time for one feed
+export class LatencyTracker {
+	// Circular buffer: fixed-size array with head pointer
+	private samples: number[] = [];
+	private head = 0;
+
+	// Prices without a venue event time are ignored
+	record(price: MidPrice): void {
+		if (price.eventTime === undefined) return;
+		const latency = price.timestamp - price.eventTime;
+		if (this.samples.length < LATENCY_WINDOW) {
+			this.samples.push(latency);
+		} else {
+			this.samples[this.head] = latency;
+			this.head = (this.head + 1) % LATENCY_WINDOW;
+		}
+	}
+
+	getPercentiles(): LatencyPercentiles | null {
+		if (this.samples.length === 0) return null;
+		const sorted = [...this.samples].sort((a, b) => a - b);
+		const at = (q: number) =>
+			sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+		return {
+			p50: at(0.5),
+			p90: at(0.9),
+			p99: at(0.99),
+			samples: sorted.length,
+		};
+	}
+
+	reset(): void {
+		this.samples = [];
+		this.head = 0;
+	}
+}
+
+// "p50/p90/p99ms", or "--" before any sample
+export function formatLatency(latency: LatencyPercentiles | null): string {
+	if (!latency) return "--";
+	return `${Math.round(latency.p50)}/${Math.round(latency.p90)}/${Math.round(latency.p99)}ms`;
+}
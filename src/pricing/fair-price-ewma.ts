@@ -0,0 +1,118 @@
+// Exponentially weighted offset fair price
+// offset += alpha * ((local_mid - reference_mid) - offset), alpha = 1 - 2^(-dt / halfLife)
+// Follows basis shifts within a few half-lives instead of a full median window
+
+import type { FairPriceProvider, FairPriceSnapshot } from "./fair-price.js";
+
+export interface EwmaFairPriceConfig {
+	readonly halfLifeMs: number; // Time for a basis shift to be half absorbed
+	readonly minSamples: number; // Min samples before producing fair price
+	readonly maxStateAgeMs: number; // State without a sample for this long is stale (live or persisted)
+}
+
+export class EwmaFairPriceCalculator implements FairPriceProvider {
+	private offset: number | null = null;
+	private samples = 0;
+	private lastSecond = 0;
+	private lastSampleTime = 0;
+
+	constructor(private readonly config: EwmaFairPriceConfig) {}
+
+	// Like the median window, nothing is served after a gap of maxStateAgeMs
+	private isStale(now: number): boolean {
+		return (
+			this.lastSampleTime > 0 &&
+			now - this.lastSampleTime > this.config.maxStateAgeMs
+		);
+	}
+
+	// Add a new sample when both prices are available (once per second)
+	// After a stale gap the estimate starts over, warmup included
+	addSample(localMid: number, referenceMid: number): void {
+		const now = Date.now();
+		if (this.isStale(now)) {
+			this.reset();
+		}
+		const currentSecond = Math.floor(now / 1000);
+		if (currentSecond <= this.lastSecond) {
+			return;
+		}
+		this.lastSecond = currentSecond;
+
+		const sampleOffset = localMid - referenceMid;
+		if (this.offset === null) {
+			this.offset = sampleOffset;
+		} else {
+			const dt = now - this.lastSampleTime;
+			const alpha = 1 - 2 ** (-dt / this.config.halfLifeMs);
+			this.offset += alpha * (sampleOffset - this.offset);
+		}
+		this.lastSampleTime = now;
+		this.samples++;
+	}
+
+	getMedianOffset(): number | null {
+		if (this.samples < this.config.minSamples || this.isStale(Date.now())) {
+			return null;
+		}
+		return this.offset;
+	}
+
+	getFairPrice(referenceMid: number): number | null {
+		const offset = this.getMedianOffset();
+		if (offset === null) return null;
+		return referenceMid + offset;
+	}
+
+	getRawMedianOffset(): number | null {
+		return this.offset;
+	}
+
+	getSampleCount(): number {
+		return this.samples;
+	}
+
+	getState(): { offset: number | null; samples: number } {
+		return {
+			offset: this.offset,
+			samples: this.samples,
+		};
+	}
+
+	reset(): void {
+		this.offset = null;
+		this.samples = 0;
+		this.lastSecond = 0;
+		this.lastSampleTime = 0;
+	}
+
+	toSnapshot(): FairPriceSnapshot {
+		return {
+			offset: this.offset,
+			samples: this.samples,
+			lastSampleTime: this.lastSampleTime,
+		};
+	}
+
+	restoreSnapshot(snapshot: FairPriceSnapshot): boolean {
+		this.reset();
+		const offset = Number(snapshot.offset);
+		const samples = Number(snapshot.samples);
+		const lastSampleTime = Number(snapshot.lastSampleTime);
+		if (
+			snapshot.offset === null ||
+			!Number.isFinite(offset) ||
+			!Number.isFinite(samples) ||
+			!Number.isFinite(lastSampleTime) ||
+			Date.now() - lastSampleTime > this.config.maxStateAgeMs
+		) {
+			return false;
+		}
+
+		this.offset = offset;
+		this.samples = samples;
+		this.lastSampleTime = lastSampleTime;
+		this.lastSecond = Math.floor(lastSampleTime / 1000);
+		return true;
+	}
+}
@@ -0,0 +1,151 @@
+// Kalman filter basis estimator
+// State: basis b (bps of reference), modeled as a random walk
+// predict: P += processNoise² * dt(s)
+// update:  K = P / (P + measurementNoise²), b += K * (z - b), P *= (1 - K)
+// z = (local_mid - reference_mid) / reference_mid * 10000
+// Trusts new samples more while uncertain, smooths harder once converged
+
+import type { FairPriceProvider, FairPriceSnapshot } from "./fair-price.js";
+
+export interface KalmanFairPriceConfig {
+	readonly processNoiseBps: number; // Basis drift per sqrt(second) (bps)
+	readonly measurementNoiseBps: number; // Noise of a single offset sample (bps)
+	readonly minSamples: number; // Min samples before producing fair price
+	readonly maxStateAgeMs: number; // State without a sample for this long is stale (live or persisted)
+}
+
+export class KalmanFairPriceCalculator implements FairPriceProvider {
+	private basisBps: number | null = null;
+	private variance = 0; // P, bps²
+	private samples = 0;
+	private lastSecond = 0;
+	private lastSampleTime = 0;
+	private lastReferenceMid = 0;
+
+	constructor(private readonly config: KalmanFairPriceConfig) {}
+
+	// Like the median window, nothing is served after a gap of maxStateAgeMs
+	private isStale(now: number): boolean {
+		return (
+			this.lastSampleTime > 0 &&
+			now - this.lastSampleTime > this.config.maxStateAgeMs
+		);
+	}
+
+	// Add a new sample when both prices are available (once per second)
+	// After a stale gap the estimate starts over, warmup included
+	addSample(localMid: number, referenceMid: number): void {
+		if (referenceMid <= 0) return;
+		const now = Date.now();
+		if (this.isStale(now)) {
+			this.reset();
+		}
+		const currentSecond = Math.floor(now / 1000);
+		if (currentSecond <= this.lastSecond) {
+			return;
+		}
+		this.lastSecond = currentSecond;
+		this.lastReferenceMid = referenceMid;
+
+		const measurement = ((localMid - referenceMid) / referenceMid) * 10000;
+		const measurementVariance = this.config.measurementNoiseBps ** 2;
+
+		if (this.basisBps === null) {
+			this.basisBps = measurement;
+			this.variance = measurementVariance;
+		} else {
+			const dtSeconds = (now - this.lastSampleTime) / 1000;
+			this.variance += this.config.processNoiseBps ** 2 * dtSeconds;
+			const gain = this.variance / (this.variance + measurementVariance);
+			this.basisBps += gain * (measurement - this.basisBps);
+			this.variance *= 1 - gain;
+		}
+		this.lastSampleTime = now;
+		this.samples++;
+	}
+
+	getMedianOffset(): number | null {
+		if (this.samples < this.config.minSamples || this.isStale(Date.now())) {
+			return null;
+		}
+		return this.getRawMedianOffset();
+	}
+
+	getFairPrice(referenceMid: number): number | null {
+		if (
+			this.samples < this.config.minSamples ||
+			this.basisBps === null ||
+			this.isStale(Date.now())
+		) {
+			return null;
+		}
+		return referenceMid * (1 + this.basisBps / 10000);
+	}
+
+	// Basis in price units at the last reference mid
+	getRawMedianOffset(): number | null {
+		if (this.basisBps === null) return null;
+		return (this.basisBps / 10000) * this.lastReferenceMid;
+	}
+
+	getSampleCount(): number {
+		return this.samples;
+	}
+
+	getState(): { offset: number | null; samples: number } {
+		return {
+			offset: this.getRawMedianOffset(),
+			samples: this.samples,
+		};
+	}
+
+	reset(): void {
+		this.basisBps = null;
+		this.variance = 0;
+		this.samples = 0;
+		this.lastSecond = 0;
+		this.lastSampleTime = 0;
+		this.lastReferenceMid = 0;
+	}
+
+	toSnapshot(): FairPriceSnapshot {
+		return {
+			basisBps: this.basisBps,
+			variance: this.variance,
+			samples: this.samples,
+			lastSampleTime: this.lastSampleTime,
+			lastReferenceMid: this.lastReferenceMid,
+		};
+	}
+
+	// Variance grows with the time spent offline (predict step over the gap)
+	restoreSnapshot(snapshot: FairPriceSnapshot): boolean {
+		this.reset();
+		const values = [
+			snapshot.basisBps,
+			snapshot.variance,
+			snapshot.samples,
+			snapshot.lastSampleTime,
+			snapshot.lastReferenceMid,
+		].map(Number);
+		const [basisBps, variance, samples, lastSampleTime, lastReferenceMid] =
+			values;
+		if (
+			snapshot.basisBps === null ||
+			!values.every(Number.isFinite) ||
+			Date.now() - lastSampleTime > this.config.maxStateAgeMs
+		) {
+			return false;
+		}
+
+		const offlineSeconds = (Date.now() - lastSampleTime) / 1000;
+		this.basisBps = basisBps;
+		this.variance =
+			variance + this.config.processNoiseBps ** 2 * offlineSeconds;
+		this.samples = samples;
+		this.lastSampleTime = lastSampleTime;
+		this.lastSecond = Math.floor(lastSampleTime / 1000);
+		this.lastReferenceMid = lastReferenceMid;
+		return true;
+	}
+}
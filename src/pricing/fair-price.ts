@@ -1,19 +1,31 @@
+import { EwmaFairPriceCalculator } from "./fair-price-ewma.js";
+import { KalmanFairPriceCalculator } from "./fair-price-kalman.js";
+
 // Fair Price Provider interface (Dependency Inversion)
 export interface FairPriceProvider {
 	/** Record price sample from local and reference exchanges */
 	addSample(localMid: number, referenceMid: number): void;
-	/** Calculate fair price based on reference price + median offset */
+	/** Calculate fair price based on reference price + estimated offset */
 	getFairPrice(referenceMid: number): number | null;
-	/** Get current median offset (local - reference), null if insufficient samples */
+	/** Get current offset estimate (local - reference), null if insufficient samples */
 	getMedianOffset(): number | null;
-	/** Get raw median offset (ignores minSamples, for display during warmup) */
+	/** Get raw offset estimate (ignores minSamples, for display during warmup) */
 	getRawMedianOffset(): number | null;
 	/** Get number of valid samples in window */
 	getSampleCount(): number;
 	/** Get current state for debugging */
 	getState(): { offset: number | null; samples: number };
+	/** Drop all samples (e.g. after switching reference venue) */
+	reset(): void;
+	/** Serializable estimator state for persistence */
+	toSnapshot(): FairPriceSnapshot;
+	/** Load persisted state, dropping anything too old; false if nothing usable */
+	restoreSnapshot(snapshot: FairPriceSnapshot): boolean;
 }
 
+// Model-specific persisted state (plain JSON)
+export type FairPriceSnapshot = Record<string, unknown>;
+
 // Offset-median fair price calculator
 // fair_price = reference_mid + median(local_mid - reference_mid)
 // Creates per-second offset samples and takes median over configurable window
@@ -124,4 +136,84 @@ export class FairPriceCalculator implements FairPriceProvider {
 			samples: this.getSampleCount(),
 		};
 	}
+
+	reset(): void {
+		this.samples = [];
+		this.head = 0;
+		this.count = 0;
+		this.lastSecond = 0;
+	}
+
+	toSnapshot(): FairPriceSnapshot {
+		return { samples: this.getValidSamples() };
+	}
+
+	restoreSnapshot(snapshot: FairPriceSnapshot): boolean {
+		this.reset();
+		if (!Array.isArray(snapshot.samples)) return false;
+
+		const cutoffSecond = Math.floor((Date.now() - this.config.windowMs) / 1000);
+		const samples = (snapshot.samples as OffsetSample[])
+			.filter(
+				(s) =>
+					Number.isFinite(s?.offset) &&
+					Number.isFinite(s?.second) &&
+					s.second > cutoffSecond,
+			)
+			.sort((a, b) => a.second - b.second)
+			.slice(-MAX_SAMPLES);
+
+		for (const sample of samples) {
+			this.samples[this.head] = {
+				offset: sample.offset,
+				second: sample.second,
+			};
+			this.head = (this.head + 1) % MAX_SAMPLES;
+			this.count++;
+		}
+		this.lastSecond = samples[samples.length - 1]?.second ?? 0;
+		return samples.length > 0;
+	}
+}
+
+export type FairPriceModel = "median" | "ewma" | "kalman";
+
+export const FAIR_PRICE_MODELS: readonly FairPriceModel[] = [
+	"median",
+	"ewma",
+	"kalman",
+];
+
+// Settings for every model; each provider reads only its own
+export interface FairPriceModelConfig {
+	readonly minSamples: number;
+	readonly windowMs: number; // median window, max state age (live and persisted) for all
+	readonly ewmaHalfLifeMs: number; // ewma
+	readonly kalmanProcessNoiseBps: number; // kalman
+	readonly kalmanMeasurementNoiseBps: number; // kalman
+}
+
+export function createFairPriceProvider(
+	model: FairPriceModel,
+	config: FairPriceModelConfig,
+): FairPriceProvider {
+	if (model === "ewma") {
+		return new EwmaFairPriceCalculator({
+			halfLifeMs: config.ewmaHalfLifeMs,
+			minSamples: config.minSamples,
+			maxStateAgeMs: config.windowMs,
+		});
+	}
+	if (model === "kalman") {
+		return new KalmanFairPriceCalculator({
+			processNoiseBps: config.kalmanProcessNoiseBps,
+			measurementNoiseBps: config.kalmanMeasurementNoiseBps,
+			minSamples: config.minSamples,
+			maxStateAgeMs: config.windowMs,
+		});
+	}
+	return new FairPriceCalculator({
+		windowMs: config.windowMs,
+		minSamples: config.minSamples,
+	});
 }
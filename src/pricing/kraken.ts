@@ -0,0 +1,67 @@
+import type { MidPrice } from "../types.js";
+import { type WebSocketFeedOptions, WebSocketPriceFeed } from "./ws-feed.js";
+
+const KRAKEN_WS = "wss://ws.kraken.com/v2";
+
+export class KrakenPriceFeed extends WebSocketPriceFeed {
+	private readonly symbol: string;
+
+	constructor(symbol: string = "BTC/USD", options: WebSocketFeedOptions = {}) {
+		super("Kraken", KRAKEN_WS, options);
+		this.symbol = symbol.toUpperCase();
+	}
+
+	protected subscribeMessage(): string | null {
+		return JSON.stringify({
+			method: "subscribe",
+			params: {
+				channel: "ticker",
+				symbol: [this.symbol],
+				event_trigger: "bbo",
+			},
+		});
+	}
+
+	// Application-level heartbeat
+	protected pingMessage(): string | null {
+		return JSON.stringify({ method: "ping" });
+	}
+
+	protected isPongMessage(raw: string): boolean {
+		try {
+			return (JSON.parse(raw) as { method?: string }).method === "pong";
+		} catch {
+			return false;
+		}
+	}
+
+	protected parseMessage(raw: string): MidPrice | null {
+		try {
+			const msg = JSON.parse(raw) as {
+				channel?: string;
+				data?: Array<{
+					symbol?: string;
+					bid?: number;
+					ask?: number;
+				}>;
+			};
+			if (msg.channel !== "ticker" || !msg.data?.length) return null;
+
+			for (const ticker of msg.data) {
+				if (ticker.symbol?.toUpperCase() !== this.symbol) continue;
+				const bid = Number(ticker.bid);
+				const ask = Number(ticker.ask);
+				if (!Number.isFinite(bid) || !Number.isFinite(ask)) continue;
+				return {
+					bid,
+					ask,
+					mid: (bid + ask) / 2,
+					timestamp: Date.now(),
+				};
+			}
+		} catch {
+			return null;
+		}
+		return null;
+	}
+}
@@ -0,0 +1,63 @@
+import type { MidPrice } from "../types.js";
+import { parseEventTime } from "./event-time.js";
+import { type WebSocketFeedOptions, WebSocketPriceFeed } from "./ws-feed.js";
+
+const OKX_WS = "wss://ws.okx.com:8443/ws/v5/public";
+const PING_INTERVAL_MS = 20_000; // OKX drops idle connections after 30s
+
+export class OkxPriceFeed extends WebSocketPriceFeed {
+	private readonly instId: string;
+
+	constructor(
+		instId: string = "BTC-USDT-SWAP",
+		options: WebSocketFeedOptions = {},
+	) {
+		super("OKX", OKX_WS, { pingIntervalMs: PING_INTERVAL_MS, ...options });
+		this.instId = instId.toUpperCase();
+	}
+
+	protected subscribeMessage(): string | null {
+		return JSON.stringify({
+			op: "subscribe",
+			args: [{ channel: "bbo-tbt", instId: this.instId }],
+		});
+	}
+
+	// Application-level heartbeat
+	protected pingMessage(): string | null {
+		return "ping";
+	}
+
+	protected isPongMessage(raw: string): boolean {
+		return raw === "pong";
+	}
+
+	protected parseMessage(raw: string): MidPrice | null {
+		try {
+			const msg = JSON.parse(raw) as {
+				arg?: { channel?: string; instId?: string };
+				data?: Array<{
+					bids?: string[][]; // [price, size, ...]
+					asks?: string[][];
+					ts?: string; // Unix ms
+				}>;
+			};
+			if (msg.arg?.channel !== "bbo-tbt" || !msg.data?.length) return null;
+			if (msg.arg.instId?.toUpperCase() !== this.instId) return null;
+
+			const book = msg.data[0];
+			const bid = Number(book.bids?.[0]?.[0]);
+			const ask = Number(book.asks?.[0]?.[0]);
+			if (!Number.isFinite(bid) || !Number.isFinite(ask)) return null;
+			return {
+				bid,
+				ask,
+				mid: (bid + ask) / 2,
+				timestamp: Date.now(),
+				eventTime: parseEventTime(book.ts),
+			};
+		} catch {
+			return null;
+		}
+	}
+}
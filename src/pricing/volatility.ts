@@ -0,0 +1,71 @@
+// Realized volatility estimator
+// EWMA of per-second squared log returns of the reference mid
+// vol_bps = sqrt(variance_per_second * horizon_seconds) * 10000
+
+export interface VolatilityConfig {
+	readonly horizonMs: number; // EWMA horizon and volatility scaling window
+	readonly minSamples: number; // Min returns before producing an estimate
+}
+
+export class VolatilityEstimator {
+	private lastMid = 0;
+	private lastSecond = 0;
+	private variance = 0; // EWMA of squared log returns, per second
+	private count = 0;
+
+	constructor(private readonly config: VolatilityConfig) {}
+
+	// Add a reference mid (sampled once per second)
+	addPrice(mid: number): void {
+		if (!Number.isFinite(mid) || mid <= 0) return;
+
+		const currentSecond = Math.floor(Date.now() / 1000);
+		if (currentSecond <= this.lastSecond) {
+			return;
+		}
+
+		if (this.lastMid > 0) {
+			const elapsedSec = currentSecond - this.lastSecond;
+			const logReturn = Math.log(mid / this.lastMid);
+			// Normalize to per-second variance so gaps don't inflate the estimate
+			const sample = (logReturn * logReturn) / elapsedSec;
+			const alpha = 1 - Math.exp((-elapsedSec * 1000) / this.config.horizonMs);
+			this.variance =
+				this.count === 0
+					? sample
+					: this.variance + alpha * (sample - this.variance);
+			this.count++;
+		}
+
+		this.lastMid = mid;
+		this.lastSecond = currentSecond;
+	}
+
+	// Forget the last mid so the next price starts a new return series. The
+	// variance is kept: use on a venue switch, where the jump is an offset, not a move
+	resetPrice(): void {
+		this.lastMid = 0;
+		this.lastSecond = 0;
+	}
+
+	// Expected move over the horizon in bps, null during warmup
+	getVolatilityBps(): number | null {
+		if (this.count < this.config.minSamples) {
+			return null;
+		}
+		const horizonSec = this.config.horizonMs / 1000;
+		return Math.sqrt(this.variance * horizonSec) * 10000;
+	}
+
+	getSampleCount(): number {
+		return this.count;
+	}
+
+	// For debugging
+	getState(): { volatilityBps: number | null; samples: number } {
+		return {
+			volatilityBps: this.getVolatilityBps(),
+			samples: this.count,
+		};
+	}
+}
@@ -0,0 +1,298 @@
+// WebSocketPriceFeed - shared connection lifecycle for exchange price feeds
+// Owns heartbeat (ping/pong), stale detection and reconnect with exponential
+// backoff + jitter. Concrete feeds supply the URL, subscribe message and parser.
+
+import WebSocket from "ws";
+import type { MidPrice, PriceCallback, ReferenceFeed } from "../types.js";
+import { log } from "../utils/logger.js";
+
+export type FeedState =
+	| "idle"
+	| "connecting"
+	| "connected"
+	| "reconnecting"
+	| "closed";
+
+export type FeedStateCallback = (state: FeedState, previous: FeedState) => void;
+
+export interface FeedStats {
+	state: FeedState;
+	messages: number; // Raw messages received
+	priceUpdates: number; // Messages that produced a price
+	connects: number; // Successful opens
+	reconnects: number; // Scheduled reconnect attempts
+	lastMessageTime: number; // Unix ms, 0 if none
+	connectedSince: number; // Unix ms of current connection, 0 if down
+}
+
+export interface WebSocketFeedOptions {
+	readonly url?: string; // Override endpoint (e.g. local test server)
+	readonly pingIntervalMs?: number;
+	readonly pongTimeoutMs?: number;
+	readonly staleThresholdMs?: number; // Reconnect after this long without a message
+	readonly staleCheckIntervalMs?: number;
+	readonly reconnectBaseMs?: number; // First reconnect delay
+	readonly reconnectMaxMs?: number; // Backoff cap
+	readonly reconnectJitter?: number; // Random ± fraction applied to each delay
+}
+
+const DEFAULT_OPTIONS: Required<Omit<WebSocketFeedOptions, "url">> = {
+	pingIntervalMs: 30_000, // Send ping every 30s
+	pongTimeoutMs: 10_000, // Expect pong within 10s
+	staleThresholdMs: 60_000, // Consider stale after 60s without message
+	staleCheckIntervalMs: 10_000,
+	reconnectBaseMs: 1000,
+	reconnectMaxMs: 30_000,
+	reconnectJitter: 0.2,
+};
+
+export abstract class WebSocketPriceFeed implements ReferenceFeed {
+	private ws: WebSocket | null = null;
+	private latestPrice: MidPrice | null = null;
+	private reconnectTimeout: NodeJS.Timeout | null = null;
+	private pingInterval: NodeJS.Timeout | null = null;
+	private pongTimeout: NodeJS.Timeout | null = null;
+	private staleCheckInterval: NodeJS.Timeout | null = null;
+	private isClosing = false;
+	private reconnectAttempt = 0;
+	private state: FeedState = "idle";
+	private readonly url: string;
+	private readonly options: Required<Omit<WebSocketFeedOptions, "url">>;
+	private readonly stats = {
+		messages: 0,
+		priceUpdates: 0,
+		connects: 0,
+		reconnects: 0,
+		lastMessageTime: 0,
+		connectedSince: 0,
+	};
+
+	// Public callbacks - can be set after construction
+	onPrice: PriceCallback | null = null;
+	onStateChange: FeedStateCallback | null = null;
+
+	protected constructor(
+		protected readonly name: string, // Venue name for logs
+		defaultUrl: string,
+		options: WebSocketFeedOptions = {},
+	) {
+		const { url, ...rest } = options;
+		this.url = url ?? defaultUrl;
+		this.options = { ...DEFAULT_OPTIONS, ...stripUndefined(rest) };
+	}
+
+	// Message sent after open (null = URL already selects the stream)
+	protected abstract subscribeMessage(): string | null;
+
+	// Parse one raw message into a price (null = not a price update)
+	protected abstract parseMessage(raw: string): MidPrice | null;
+
+	// Application-level ping (null = WebSocket ping frame)
+	protected pingMessage(): string | null {
+		return null;
+	}
+
+	// Whether a raw message is the reply to an application-level ping
+	protected isPongMessage(_raw: string): boolean {
+		return false;
+	}
+
+	// Reset per-connection parser state (called on every disconnect)
+	protected onDisconnect(): void {}
+
+	connect(): void {
+		if (this.ws) return;
+		this.isClosing = false;
+
+		log.info(`Connecting to ${this.name} (${this.url})...`);
+		this.setState(this.reconnectAttempt > 0 ? "reconnecting" : "connecting");
+		const ws = new WebSocket(this.url);
+		this.ws = ws;
+		// Events from a socket that was already replaced or closed are ignored,
+		// so a late close cannot tear down the current connection
+		const isCurrent = () => this.ws === ws;
+
+		ws.on("open", () => {
+			if (!isCurrent()) return;
+			log.info(`${this.name} connected`);
+			this.reconnectAttempt = 0;
+			this.stats.connects++;
+			this.stats.connectedSince = Date.now();
+			this.stats.lastMessageTime = Date.now();
+			this.setState("connected");
+
+			const subscribe = this.subscribeMessage();
+			if (subscribe) {
+				ws.send(subscribe);
+			}
+			this.startPingInterval();
+			this.startStaleCheck();
+		});
+
+		ws.on("message", (data: Buffer) => {
+			if (!isCurrent()) return;
+			this.stats.messages++;
+			this.stats.lastMessageTime = Date.now();
+			const raw = data.toString();
+			if (this.isPongMessage(raw)) {
+				this.clearPongTimeout();
+				return;
+			}
+			const price = this.parseMessage(raw);
+			if (!price) return;
+			this.stats.priceUpdates++;
+			this.latestPrice = price;
+			this.onPrice?.(price);
+		});
+
+		// Pong frame (reply to WebSocket ping)
+		ws.on("pong", () => {
+			if (isCurrent()) this.clearPongTimeout();
+		});
+
+		ws.on("error", (err: Error) => {
+			if (isCurrent()) log.error(`${this.name} WebSocket error:`, err.message);
+		});
+
+		ws.on("close", () => {
+			if (!isCurrent()) return;
+			this.cleanup();
+			if (this.isClosing) {
+				this.setState("closed");
+			} else {
+				log.warn(`${this.name} disconnected`);
+				this.scheduleReconnect();
+			}
+		});
+	}
+
+	getMidPrice(): MidPrice | null {
+		return this.latestPrice;
+	}
+
+	getState(): FeedState {
+		return this.state;
+	}
+
+	getStats(): FeedStats {
+		return { state: this.state, ...this.stats };
+	}
+
+	close(): void {
+		this.isClosing = true;
+		if (this.reconnectTimeout) {
+			clearTimeout(this.reconnectTimeout);
+			this.reconnectTimeout = null;
+		}
+		const ws = this.ws;
+		this.cleanup();
+		ws?.close();
+		this.setState("closed");
+	}
+
+	private setState(next: FeedState): void {
+		if (next === this.state) return;
+		const previous = this.state;
+		this.state = next;
+		this.onStateChange?.(next, previous);
+	}
+
+	private startPingInterval(): void {
+		this.stopPingInterval();
+		this.pingInterval = setInterval(() => {
+			if (this.ws?.readyState !== WebSocket.OPEN) return;
+			const message = this.pingMessage();
+			if (message === null) {
+				this.ws.ping();
+			} else {
+				this.ws.send(message);
+			}
+			this.startPongTimeout();
+		}, this.options.pingIntervalMs);
+	}
+
+	private stopPingInterval(): void {
+		if (!this.pingInterval) return;
+		clearInterval(this.pingInterval);
+		this.pingInterval = null;
+	}
+
+	private startPongTimeout(): void {
+		this.clearPongTimeout();
+		this.pongTimeout = setTimeout(() => {
+			log.warn(`${this.name} pong timeout - connection dead`);
+			this.ws?.terminate(); // Force close
+		}, this.options.pongTimeoutMs);
+	}
+
+	private clearPongTimeout(): void {
+		if (!this.pongTimeout) return;
+		clearTimeout(this.pongTimeout);
+		this.pongTimeout = null;
+	}
+
+	private startStaleCheck(): void {
+		this.stopStaleCheck();
+		this.staleCheckInterval = setInterval(() => {
+			if (this.isClosing) return;
+			const timeSinceMessage = Date.now() - this.stats.lastMessageTime;
+			if (
+				this.stats.lastMessageTime > 0 &&
+				timeSinceMessage > this.options.staleThresholdMs
+			) {
+				log.warn(
+					`${this.name} stale (${timeSinceMessage}ms since last message). Reconnecting...`,
+				);
+				this.ws?.terminate();
+			}
+		}, this.options.staleCheckIntervalMs);
+	}
+
+	private stopStaleCheck(): void {
+		if (!this.staleCheckInterval) return;
+		clearInterval(this.staleCheckInterval);
+		this.staleCheckInterval = null;
+	}
+
+	private cleanup(): void {
+		this.stopPingInterval();
+		this.clearPongTimeout();
+		this.stopStaleCheck();
+		this.stats.connectedSince = 0;
+		this.ws = null;
+		this.onDisconnect();
+	}
+
+	// delay = min(base * 2^attempt, max) * (1 ± jitter)
+	private nextReconnectDelay(): number {
+		const { reconnectBaseMs, reconnectMaxMs, reconnectJitter } = this.options;
+		const backoff = Math.min(
+			reconnectBaseMs * 2 ** this.reconnectAttempt,
+			reconnectMaxMs,
+		);
+		const jitter = 1 + (Math.random() * 2 - 1) * reconnectJitter;
+		return Math.max(0, Math.round(backoff * jitter));
+	}
+
+	private scheduleReconnect(): void {
+		if (this.reconnectTimeout) return;
+
+		const delay = this.nextReconnectDelay();
+		this.reconnectAttempt++;
+		this.stats.reconnects++;
+		this.setState("reconnecting");
+		log.info(
+			`Reconnecting to ${this.name} in ${(delay / 1000).toFixed(1)}s (attempt ${this.reconnectAttempt})...`,
+		);
+		this.reconnectTimeout = setTimeout(() => {
+			this.reconnectTimeout = null;
+			this.connect();
+		}, delay);
+	}
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+	return Object.fromEntries(
+		Object.entries(obj).filter(([, value]) => value !== undefined),
+	) as Partial<T>;
+}
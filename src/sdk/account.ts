@@ -22,12 +22,22 @@ export interface FillEvent {
 	marketId: number;
 }
 
+// Cancel event data (market unknown if the order was never tracked)
+export interface CancelEvent {
+	orderId: string;
+	marketId: number | null;
+}
+
 type FillCallback = (fill: FillEvent) => void;
+type PlaceCallback = (order: TrackedOrder) => void;
+type CancelCallback = (cancel: CancelEvent) => void;
 
 export class AccountStream {
 	private subscription: ReturnType<Nord["subscribeAccount"]> | null = null;
 	private orders = new Map<string, TrackedOrder>();
 	private onFill: FillCallback | null = null;
+	private onPlace: PlaceCallback | null = null;
+	private onCancel: CancelCallback | null = null;
 	private isClosing = false;
 	private reconnectTimeout: NodeJS.Timeout | null = null;
 
@@ -43,6 +53,14 @@ export class AccountStream {
 		this.onFill = callback;
 	}
 
+	setOnPlace(callback: PlaceCallback): void {
+		this.onPlace = callback;
+	}
+
+	setOnCancel(callback: CancelCallback): void {
+		this.onCancel = callback;
+	}
+
 	connect(): void {
 		if (this.subscription) return;
 
@@ -119,13 +137,15 @@ export class AccountStream {
 	private handleUpdate(data: WebSocketAccountUpdate): void {
 		// Handle new placements
 		for (const [orderId, order] of Object.entries(data.places)) {
-			this.orders.set(orderId, {
+			const tracked: TrackedOrder = {
 				orderId,
 				side: order.side,
 				price: order.price,
 				size: order.current_size,
 				marketId: order.market_id,
-			});
+			};
+			this.orders.set(orderId, tracked);
+			this.onPlace?.({ ...tracked });
 		}
 
 		// Handle fills - use fill.side directly
@@ -155,7 +175,9 @@ export class AccountStream {
 
 		// Handle cancellations
 		for (const orderId of Object.keys(data.cancels)) {
+			const marketId = this.orders.get(orderId)?.marketId ?? null;
 			this.orders.delete(orderId);
+			this.onCancel?.({ orderId, marketId });
 		}
 	}
 
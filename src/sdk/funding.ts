@@ -0,0 +1,69 @@
+import type { Nord } from "@n1xyz/nord-ts";
+import { parseEventTime } from "../pricing/event-time.js";
+import { log } from "../utils/logger.js";
+
+const DEFAULT_POLL_INTERVAL_MS = 60_000;
+
+// Funding rates as fractions per funding interval (0.0001 = 1 bps)
+export interface FundingRate {
+	current: number; // Market stats carry no predicted rate
+	nextFundingTime: number | null; // Unix ms
+	timestamp: number; // Local fetch time
+}
+
+// Polls market stats for the perp funding rate
+export class FundingRateTracker {
+	private latestRate: FundingRate | null = null;
+	private pollInterval: NodeJS.Timeout | null = null;
+
+	constructor(
+		private readonly nord: Nord,
+		private readonly marketId: number,
+		private readonly pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS,
+		private readonly label: string = "",
+	) {}
+
+	// Throws if the first poll fails, so a missing funding field stops startup
+	async start(): Promise<void> {
+		if (this.pollInterval) return;
+		this.latestRate = await this.fetchRate();
+		this.pollInterval = setInterval(() => {
+			void this.refresh();
+		}, this.pollIntervalMs);
+	}
+
+	async refresh(): Promise<void> {
+		try {
+			this.latestRate = await this.fetchRate();
+		} catch (err) {
+			log.error(`${this.label}Funding rate fetch error:`, err);
+		}
+	}
+
+	private async fetchRate(): Promise<FundingRate> {
+		const stats = await this.nord.getMarketStats({ marketId: this.marketId });
+		const current = stats.perpStats?.funding_rate;
+		if (typeof current !== "number" || !Number.isFinite(current)) {
+			throw new Error(
+				`Market ${this.marketId} stats have no perp funding rate (got ${JSON.stringify(current)})`,
+			);
+		}
+		return {
+			current,
+			nextFundingTime:
+				parseEventTime(stats.perpStats?.next_funding_time) ?? null,
+			timestamp: Date.now(),
+		};
+	}
+
+	getRate(): FundingRate | null {
+		return this.latestRate;
+	}
+
+	stop(): void {
+		if (this.pollInterval) {
+			clearInterval(this.pollInterval);
+			this.pollInterval = null;
+		}
+	}
+}
@@ -10,6 +10,10 @@ const RECONNECT_DELAY_MS = 3000;
 const STALE_THRESHOLD_MS = 60_000; // Consider stale after 60s without update
 const STALE_CHECK_INTERVAL_MS = 10_000;
 const MAX_LEVELS = 100; // Only keep top N levels (we only need BBO)
+const RESYNC_MIN_INTERVAL_MS = 2000; // Spacing between snapshot resyncs
+const SIZE_TOLERANCE = 1e-9; // Relative size difference treated as equal
+
+type OrderbookSnapshot = Awaited<ReturnType<Nord["getOrderbook"]>>;
 
 // Best Bid/Offer for clamping order prices
 export interface BBO {
@@ -17,11 +21,59 @@ export interface BBO {
 	bestAsk: number;
 }
 
-// Callback for orderbook depth updates (for display)
-export type OrderbookUpdateCallback = (
-	bids: Map<number, number>,
-	asks: Map<number, number>,
-) => void;
+// Single price level
+export interface OrderbookLevel {
+	price: number;
+	size: number;
+}
+
+// Top-N depth, sorted from best price outward
+export interface OrderbookDepth {
+	bids: OrderbookLevel[];
+	asks: OrderbookLevel[];
+}
+
+// Book side: "bid" walks resting bids (sell), "ask" walks resting asks (buy)
+export type BookSide = "bid" | "ask";
+
+// Unit of a fill target: base size or quote (USD) notional
+export type FillUnit = "size" | "notional";
+
+// Resting liquidity within a distance of mid
+export interface DepthWithin {
+	size: number; // Base size
+	notional: number; // Quote (USD) value
+	levels: number;
+}
+
+// Result of walking one side of the book
+export interface FillEstimate {
+	vwap: number; // Average fill price
+	worstPrice: number; // Last level touched
+	filledSize: number;
+	filledNotional: number;
+	complete: boolean; // false if the visible book ran out first
+}
+
+// Book integrity counters since connect
+export interface OrderbookSyncStats {
+	gaps: number; // Deltas that did not continue from our update id
+	crossedBooks: number; // Crossed or locked BBO after applying updates
+	resyncs: number; // Snapshot resyncs performed
+	verifyChecks: number; // REST cross-checks compared
+	verifyMismatches: number; // Cross-checks where top levels differed
+	verifyResets: number; // Book replaced after drift beyond tolerance
+}
+
+// Periodic REST cross-check of the local book
+export interface OrderbookVerifyConfig {
+	readonly intervalMs: number; // Time between cross-checks
+	readonly levels: number; // Top N levels per side compared
+	readonly maxDrift: number; // Fraction of compared levels that may differ before reset
+}
+
+// Book changed; query the stream for what the caller needs
+export type OrderbookUpdateCallback = () => void;
 
 // Sorted orderbook side (price -> size)
 // Bids: descending (highest first), Asks: ascending (lowest first)
@@ -90,6 +142,59 @@ class OrderbookSide {
 		return this.sortedPrices.length > 0 ? this.sortedPrices[0] : null;
 	}
 
+	// Size at a price (0 if the level is absent)
+	getSize(price: number): number {
+		return this.levels.get(price) ?? 0;
+	}
+
+	// Get top N levels, best price first
+	getTopLevels(n: number): OrderbookLevel[] {
+		return this.sortedPrices.slice(0, n).map((price) => ({
+			price,
+			size: this.levels.get(price) ?? 0,
+		}));
+	}
+
+	// Cumulative liquidity from the best price up to and including limitPrice
+	depthTo(limitPrice: number): DepthWithin {
+		const depth: DepthWithin = { size: 0, notional: 0, levels: 0 };
+		for (const price of this.sortedPrices) {
+			if (this.isAsk ? price > limitPrice : price < limitPrice) break;
+			const size = this.levels.get(price) ?? 0;
+			depth.size += size;
+			depth.notional += price * size;
+			depth.levels++;
+		}
+		return depth;
+	}
+
+	// Walk from the best price until target base size (or quote notional) is filled
+	walk(target: number, unit: FillUnit): FillEstimate | null {
+		let filledSize = 0;
+		let filledNotional = 0;
+		let worstPrice = 0;
+		for (const price of this.sortedPrices) {
+			const filled = unit === "size" ? filledSize : filledNotional;
+			if (filled >= target) break;
+			const available = this.levels.get(price) ?? 0;
+			const remaining =
+				unit === "size" ? target - filled : (target - filled) / price;
+			const take = Math.min(available, remaining);
+			filledSize += take;
+			filledNotional += take * price;
+			worstPrice = price;
+		}
+		if (filledSize <= 0) return null;
+		const filled = unit === "size" ? filledSize : filledNotional;
+		return {
+			vwap: filledNotional / filledSize,
+			worstPrice,
+			filledSize,
+			filledNotional,
+			complete: filled >= target * (1 - 1e-9),
+		};
+	}
+
 	clear(): void {
 		this.levels.clear();
 		this.sortedPrices = [];
@@ -98,11 +203,32 @@ class OrderbookSide {
 	size(): number {
 		return this.levels.size;
 	}
+}
 
-	// Get all levels as a Map (for display)
-	getLevels(): Map<number, number> {
-		return new Map(this.levels);
+// Levels in either top N whose size differs from the other book (looked up at full depth,
+// so a level sitting just outside one side's top N is not a false mismatch)
+function compareTopLevels(
+	local: OrderbookSide,
+	remote: OrderbookSide,
+	levels: number,
+): { mismatched: number; compared: number } {
+	const prices = new Set(
+		[...local.getTopLevels(levels), ...remote.getTopLevels(levels)].map(
+			(level) => level.price,
+		),
+	);
+	let mismatched = 0;
+	for (const price of prices) {
+		const localSize = local.getSize(price);
+		const remoteSize = remote.getSize(price);
+		if (
+			Math.abs(localSize - remoteSize) >
+			SIZE_TOLERANCE * Math.max(localSize, remoteSize)
+		) {
+			mismatched++;
+		}
 	}
+	return { mismatched, compared: prices.size };
 }
 
 export class ZoOrderbookStream {
@@ -115,6 +241,19 @@ export class ZoOrderbookStream {
 	private isClosing = false;
 	private staleCheckInterval: NodeJS.Timeout | null = null;
 	private reconnectTimeout: NodeJS.Timeout | null = null;
+	private resyncTimeout: NodeJS.Timeout | null = null;
+	private lastResyncAt = 0;
+	private verifyConfig: OrderbookVerifyConfig | null = null;
+	private verifyInterval: NodeJS.Timeout | null = null;
+	private isVerifying = false;
+	private syncStats: OrderbookSyncStats = {
+		gaps: 0,
+		crossedBooks: 0,
+		resyncs: 0,
+		verifyChecks: 0,
+		verifyMismatches: 0,
+		verifyResets: 0,
+	};
 	private snapshotLoaded = false;
 	private deltaBuffer: unknown[] = []; // Buffer deltas until snapshot is loaded
 
@@ -150,6 +289,7 @@ export class ZoOrderbookStream {
 
 		// Start staleness monitoring
 		this.startStaleCheck();
+		this.startVerification();
 
 		log.info(
 			`Zo orderbook active (${this.bids.size()} bids, ${this.asks.size()} asks)`,
@@ -195,17 +335,7 @@ export class ZoOrderbookStream {
 				`Snapshot received: ${response.bids?.length ?? 0} bids, ${response.asks?.length ?? 0} asks`,
 			);
 
-			// Normalize and set snapshot
-			const bids = this.normalizeEntries(response.bids);
-			const asks = this.normalizeEntries(response.asks);
-
-			this.bids.setSnapshot(bids);
-			this.asks.setSnapshot(asks);
-			this.lastUpdateId = response.updateId;
-			this.snapshotLoaded = true;
-
-			// Calculate and emit initial price
-			this.emitPrice();
+			this.applySnapshot(response);
 
 			log.info(`Orderbook snapshot loaded (updateId: ${response.updateId})`);
 		} catch (err) {
@@ -214,6 +344,20 @@ export class ZoOrderbookStream {
 		}
 	}
 
+	private applySnapshot(response: OrderbookSnapshot): void {
+		// Normalize and set snapshot
+		const bids = this.normalizeEntries(response.bids);
+		const asks = this.normalizeEntries(response.asks);
+
+		this.bids.setSnapshot(bids);
+		this.asks.setSnapshot(asks);
+		this.lastUpdateId = response.updateId;
+		this.snapshotLoaded = true;
+
+		// Calculate and emit initial price
+		this.emitPrice();
+	}
+
 	private startStaleCheck(): void {
 		if (this.staleCheckInterval) return;
 
@@ -232,8 +376,63 @@ export class ZoOrderbookStream {
 		}, STALE_CHECK_INTERVAL_MS);
 	}
 
+	private startVerification(): void {
+		if (this.verifyInterval || !this.verifyConfig) return;
+
+		this.verifyInterval = setInterval(() => {
+			if (this.isClosing) return;
+			void this.verifyAgainstSnapshot();
+		}, this.verifyConfig.intervalMs);
+	}
+
+	// Compare the top of the local book with a fresh REST snapshot
+	private async verifyAgainstSnapshot(): Promise<void> {
+		const config = this.verifyConfig;
+		if (!config || !this.snapshotLoaded || this.isVerifying) return;
+
+		this.isVerifying = true;
+		try {
+			const response = await this.nord.getOrderbook({ symbol: this.symbol });
+			// Resync started meanwhile, or REST is behind us: nothing to compare
+			if (!this.snapshotLoaded || response.updateId < this.lastUpdateId) {
+				return;
+			}
+
+			const remoteBids = new OrderbookSide(false);
+			const remoteAsks = new OrderbookSide(true);
+			remoteBids.setSnapshot(this.normalizeEntries(response.bids));
+			remoteAsks.setSnapshot(this.normalizeEntries(response.asks));
+			const bids = compareTopLevels(this.bids, remoteBids, config.levels);
+			const asks = compareTopLevels(this.asks, remoteAsks, config.levels);
+			const mismatched = bids.mismatched + asks.mismatched;
+			const compared = bids.compared + asks.compared;
+
+			this.syncStats.verifyChecks++;
+			if (mismatched === 0) return;
+
+			this.syncStats.verifyMismatches++;
+			const drift = compared > 0 ? mismatched / compared : 0;
+			log.info(
+				`Zo orderbook cross-check: ${mismatched}/${compared} top levels differ (local ${this.lastUpdateId}, REST ${response.updateId})`,
+			);
+			// Deltas still in flight explain small drift; at the same update id any drift is corruption
+			if (drift > config.maxDrift || response.updateId === this.lastUpdateId) {
+				this.syncStats.verifyResets++;
+				log.warn(
+					`Zo orderbook drifted from exchange (${(drift * 100).toFixed(0)}% of top levels). Resetting to REST snapshot.`,
+				);
+				this.applySnapshot(response);
+			}
+		} catch (err) {
+			log.warn("Zo orderbook cross-check failed:", err);
+		} finally {
+			this.isVerifying = false;
+		}
+	}
+
 	private scheduleReconnect(): void {
 		if (this.reconnectTimeout) return;
+		this.clearResync();
 
 		// Close existing subscription immediately
 		if (this.subscription) {
@@ -265,6 +464,47 @@ export class ZoOrderbookStream {
 		log.info("Zo orderbook reconnected");
 	}
 
+	// Drop the suspect book and rebuild it from a REST snapshot. The
+	// subscription stays open; deltas are buffered until the snapshot lands.
+	private requestResync(reason: string): void {
+		if (this.isClosing || this.resyncTimeout) return;
+
+		log.warn(`Zo orderbook ${reason}. Resyncing from snapshot...`);
+		this.bids.clear();
+		this.asks.clear();
+		this.latestPrice = null;
+		this.snapshotLoaded = false;
+		this.deltaBuffer = [];
+
+		const delay = Math.max(
+			0,
+			this.lastResyncAt + RESYNC_MIN_INTERVAL_MS - Date.now(),
+		);
+		this.resyncTimeout = setTimeout(() => {
+			this.resyncTimeout = null;
+			void this.resync();
+		}, delay);
+	}
+
+	private async resync(): Promise<void> {
+		this.lastResyncAt = Date.now();
+		this.syncStats.resyncs++;
+		try {
+			await this.fetchSnapshot();
+			this.applyBufferedDeltas();
+		} catch {
+			// Snapshot failed (already logged): start over with a fresh subscription
+			this.scheduleReconnect();
+		}
+	}
+
+	private clearResync(): void {
+		if (this.resyncTimeout) {
+			clearTimeout(this.resyncTimeout);
+			this.resyncTimeout = null;
+		}
+	}
+
 	private resetState(): void {
 		this.bids.clear();
 		this.asks.clear();
@@ -328,11 +568,21 @@ export class ZoOrderbookStream {
 		// - REST snapshot gives us updateId N
 		// - WebSocket delta has last_update_id (previous state) and update_id (new state)
 		// - Skip stale updates where update_id <= our lastUpdateId
-		// - Accept updates where last_update_id >= our lastUpdateId (we might miss some, but orderbook will self-correct)
+		// - A delta starting after our lastUpdateId means we missed one: resync
 		if (data.update_id !== undefined && data.update_id <= this.lastUpdateId) {
 			// Stale update, skip
 			return;
 		}
+		if (
+			data.last_update_id !== undefined &&
+			data.last_update_id > this.lastUpdateId
+		) {
+			this.syncStats.gaps++;
+			this.requestResync(
+				`sequence gap (at ${this.lastUpdateId}, delta from ${data.last_update_id})`,
+			);
+			return;
+		}
 
 		if (data.update_id !== undefined) {
 			this.lastUpdateId = data.update_id;
@@ -357,6 +607,13 @@ export class ZoOrderbookStream {
 		if (bestBid === null || bestAsk === null) {
 			return; // No valid BBO yet
 		}
+		if (bestBid >= bestAsk) {
+			this.syncStats.crossedBooks++;
+			this.requestResync(
+				`${bestBid > bestAsk ? "crossed" : "locked"} book (bid ${bestBid} >= ask ${bestAsk})`,
+			);
+			return;
+		}
 
 		const mid = (bestBid + bestAsk) / 2;
 		const timestamp = Date.now();
@@ -365,6 +622,8 @@ export class ZoOrderbookStream {
 			mid,
 			bid: bestBid,
 			ask: bestAsk,
+			// SDK deltas carry no venue time: eventTime stays unset, so pairing
+			// with 01 prices falls back to receive time
 			timestamp,
 		};
 
@@ -372,9 +631,8 @@ export class ZoOrderbookStream {
 			this.onPrice(this.latestPrice);
 		}
 
-		// Emit orderbook depth for display
 		if (this.onOrderbookUpdate) {
-			this.onOrderbookUpdate(this.bids.getLevels(), this.asks.getLevels());
+			this.onOrderbookUpdate();
 		}
 	}
 
@@ -394,16 +652,67 @@ export class ZoOrderbookStream {
 		return { bestBid, bestAsk };
 	}
 
+	// True while the book is being rebuilt from a snapshot (no BBO to trust)
+	isSyncing(): boolean {
+		return !this.snapshotLoaded;
+	}
+
+	// Periodically compare the book with REST snapshots (call before connect)
+	enableVerification(config: OrderbookVerifyConfig): void {
+		this.verifyConfig = config;
+	}
+
+	getSyncStats(): OrderbookSyncStats {
+		return { ...this.syncStats };
+	}
+
+	// Get top N levels per side (best price first)
+	getDepth(levels: number): OrderbookDepth {
+		return {
+			bids: this.bids.getTopLevels(levels),
+			asks: this.asks.getTopLevels(levels),
+		};
+	}
+
+	// Cumulative liquidity resting within bps of mid on one side
+	getDepthWithinBps(side: BookSide, bps: number): DepthWithin {
+		const mid = this.latestPrice?.mid;
+		if (mid === undefined) return { size: 0, notional: 0, levels: 0 };
+		const distance = (mid * bps) / 10000;
+		return this.getSide(side).depthTo(
+			side === "ask" ? mid + distance : mid - distance,
+		);
+	}
+
+	// VWAP and worst price for taking a base size or quote notional from one
+	// side (null if the side is empty)
+	estimateFill(
+		side: BookSide,
+		amount: number,
+		unit: FillUnit = "size",
+	): FillEstimate | null {
+		return this.getSide(side).walk(amount, unit);
+	}
+
+	private getSide(side: BookSide): OrderbookSide {
+		return side === "bid" ? this.bids : this.asks;
+	}
+
 	close(): void {
 		this.isClosing = true;
 		if (this.reconnectTimeout) {
 			clearTimeout(this.reconnectTimeout);
 			this.reconnectTimeout = null;
 		}
+		this.clearResync();
 		if (this.staleCheckInterval) {
 			clearInterval(this.staleCheckInterval);
 			this.staleCheckInterval = null;
 		}
+		if (this.verifyInterval) {
+			clearInterval(this.verifyInterval);
+			this.verifyInterval = null;
+		}
 		if (this.subscription) {
 			this.subscription.close();
 			this.subscription = null;
@@ -1,4 +1,13 @@
 // Atomic order operations with immediate order ID tracking
+// Each chunk is all-or-nothing on the exchange. Failed chunks are classified:
+// retryable: rate limit, or connection failed before sending → retried with capped exponential backoff
+// unknown:   timeout / reset / gateway error after sending; the chunk may have
+//            been applied → not retried, stop; callers reconcile via fetchInfo
+// rejected:  exchange refused the actions (post-only cross, margin) → skip chunk, continue
+// fatal:     anything else → stop; later chunks are not sent
+// Callers get partial results back instead of an exception
+// With a rate limiter, every attempt waits for its action budget first and
+// rate-limit errors slow the limiter down
 
 import {
 	FillMode,
@@ -9,8 +18,32 @@ import {
 import Decimal from "decimal.js";
 import type { Quote } from "../types.js";
 import { log } from "../utils/logger.js";
+import type { ActionRateLimiter } from "./rate-limiter.js";
 
 const MAX_ATOMIC_ACTIONS = 4;
+const MAX_ATOMIC_ATTEMPTS = 3; // Per chunk, for retryable errors
+const RETRY_BASE_DELAY_MS = 250;
+const RETRY_MAX_DELAY_MS = 2000;
+
+const RATE_LIMIT_ERROR = /rate.?limit|too many requests|\b429\b/i;
+const NOT_SENT_ERROR = /ECONNREFUSED|ENOTFOUND|EAI_AGAIN/i;
+const AMBIGUOUS_ERROR =
+	/timeout|timed out|ECONNRESET|ETIMEDOUT|EPIPE|socket hang up|network|fetch failed|\b50[234]\b|unavailable/i;
+// Order-level refusals only: a bare "not found" or "margin" can come from a
+// misrouted request or a failing service and must fall through to fatal
+const REJECTED_ERROR =
+	/post.?only (order )?would (cross|fill|match|take)|would (cross|match) the book|insufficient (margin|collateral|balance|funds)|reduce.?only (order )?would increase|order (id )?not found|invalid order (price|size)|(price|size) (is )?not a multiple of|below (the )?min(imum)? order (size|notional)/i;
+
+export type AtomicErrorKind = "retryable" | "unknown" | "rejected" | "fatal";
+
+// Chunk that did not go through; its cancels did not happen and its places were not posted
+export interface AtomicFailure {
+	kind: AtomicErrorKind;
+	message: string;
+	attempts: number; // 0 = not sent after an earlier chunk failed
+	cancels: string[]; // Order IDs still resting
+	places: number; // Place actions not executed
+}
 
 // Cached order info
 export interface CachedOrder {
@@ -20,6 +53,43 @@ export interface CachedOrder {
 	size: Decimal;
 }
 
+// Why a place left no resting order
+// rejected:  refused by the exchange (rejected chunk, or a post-only place that did not rest)
+// immediate: taker place (IOC, FOK, limit) that filled or expired at once, by design
+export type UnpostedKind = "rejected" | "immediate";
+
+// Place action that left no resting order
+export interface UnpostedPlace {
+	side: "bid" | "ask";
+	price: Decimal;
+	size: Decimal;
+	kind: UnpostedKind;
+	reason: string; // Exchange error, or what the place result implies
+}
+
+// Outcome of a quote update
+export interface QuoteUpdateResult {
+	orders: CachedOrder[]; // Resting orders after the update (kept + newly posted)
+	placed: CachedOrder[]; // Newly posted orders
+	cancelled: string[]; // Order IDs cancelled by the update
+	unposted: UnpostedPlace[]; // Places of rejected chunks, and places accepted without resting (see kind)
+	failures: AtomicFailure[]; // Chunks that did not go through
+}
+
+// Outcome of a cancel request
+export interface CancelResult {
+	cancelled: string[]; // Order IDs confirmed cancelled
+	failures: AtomicFailure[];
+}
+
+// Per-chunk results accumulated across chunks
+interface AtomicOutcome {
+	placed: CachedOrder[];
+	unposted: UnpostedPlace[];
+	cancelled: string[];
+	failures: AtomicFailure[];
+}
+
 // Result type for atomic operations
 interface AtomicResult {
 	results: Array<{
@@ -52,60 +122,219 @@ function formatAction(action: UserAtomicSubaction): string {
 	return `${side}${ro}[${fm}]@${action.price}x${action.size}`;
 }
 
-// Extract placed orders from atomic result
+function errorText(err: unknown): string {
+	const e = err as { message?: unknown; code?: unknown; status?: unknown };
+	return [err instanceof Error ? err.message : String(err), e?.code, e?.status]
+		.filter((part) => part !== undefined)
+		.join(" ");
+}
+
+export function isRateLimitError(err: unknown): boolean {
+	return RATE_LIMIT_ERROR.test(errorText(err));
+}
+
+// Only errors that clearly left the chunk unapplied are worth another attempt:
+// resending after a timeout could double a place that already went through
+export function classifyAtomicError(err: unknown): AtomicErrorKind {
+	const text = errorText(err);
+	if (RATE_LIMIT_ERROR.test(text) || NOT_SENT_ERROR.test(text)) {
+		return "retryable";
+	}
+	if (AMBIGUOUS_ERROR.test(text)) return "unknown";
+	if (REJECTED_ERROR.test(text)) return "rejected";
+	return "fatal";
+}
+
+function retryDelayMs(attempt: number): number {
+	const delay = Math.min(
+		RETRY_MAX_DELAY_MS,
+		RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+	);
+	// Jitter so several markets do not retry in lockstep
+	return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function cancelIds(chunk: UserAtomicSubaction[]): string[] {
+	return chunk.flatMap((a) => (a.kind === "cancel" ? [String(a.orderId)] : []));
+}
+
+function chunkFailure(
+	chunk: UserAtomicSubaction[],
+	kind: AtomicErrorKind,
+	message: string,
+	attempts: number,
+): AtomicFailure {
+	return {
+		kind,
+		message,
+		attempts,
+		cancels: cancelIds(chunk),
+		places: chunk.filter((a) => a.kind === "place").length,
+	};
+}
+
+// Send one chunk, retrying retryable errors with backoff
+async function sendChunk(
+	user: NordUser,
+	chunk: UserAtomicSubaction[],
+	label: string,
+	limiter: ActionRateLimiter | null,
+): Promise<{ result: AtomicResult } | { failure: AtomicFailure }> {
+	// Pure cancel chunks jump the queue; replacements wait with the places
+	const priority = chunk.some((a) => a.kind === "place") ? "place" : "cancel";
+	for (let attempt = 1; ; attempt++) {
+		try {
+			await limiter?.acquire(chunk.length, priority);
+			return { result: (await user.atomic(chunk)) as AtomicResult };
+		} catch (err) {
+			if (limiter && isRateLimitError(err)) {
+				limiter.onRateLimited();
+			}
+			const kind = classifyAtomicError(err);
+			const message = err instanceof Error ? err.message : String(err);
+			if (kind !== "retryable" || attempt >= MAX_ATOMIC_ATTEMPTS) {
+				log.warn(
+					`ATOMIC ${label}: ${kind} after ${attempt} attempt(s): ${message}`,
+				);
+				return { failure: chunkFailure(chunk, kind, message, attempt) };
+			}
+			const delay = retryDelayMs(attempt);
+			log.warn(
+				`ATOMIC ${label}: ${message}, retrying in ${delay.toFixed(0)}ms (${attempt}/${MAX_ATOMIC_ATTEMPTS})`,
+			);
+			await sleep(delay);
+		}
+	}
+}
+
+// Side, price and size of a place action
+function placeDetails(
+	action: UserAtomicSubaction | undefined,
+): Omit<UnpostedPlace, "kind" | "reason"> | null {
+	if (action?.kind !== "place") return null;
+	return {
+		side: action.side === Side.Bid ? "bid" : "ask",
+		price: new Decimal(action.price as Decimal.Value),
+		size: new Decimal(action.size as Decimal.Value),
+	};
+}
+
+// Places of a chunk the exchange refused
+function rejectedPlaces(
+	actions: UserAtomicSubaction[],
+	reason: string,
+): UnpostedPlace[] {
+	return actions.flatMap((action) => {
+		const details = placeDetails(action);
+		return details ? [{ ...details, kind: "rejected" as const, reason }] : [];
+	});
+}
+
+// Accepted place without a resting order: only post-only means it was refused
+function unrestedPlace(action: UserAtomicSubaction): UnpostedPlace[] {
+	const details = placeDetails(action);
+	if (!details || action.kind !== "place") return [];
+	return action.fillMode === FillMode.PostOnly
+		? [{ ...details, kind: "rejected", reason: "post-only place did not rest" }]
+		: [{ ...details, kind: "immediate", reason: "filled or expired at once" }];
+}
+
+// Split the chunk's places into posted orders and places that did not rest
+// (place results come back in the order the place actions were sent)
 function extractPlacedOrders(
 	result: AtomicResult,
 	actions: UserAtomicSubaction[],
-): CachedOrder[] {
-	const orders: CachedOrder[] = [];
+): { placed: CachedOrder[]; unposted: UnpostedPlace[] } {
+	const placed: CachedOrder[] = [];
 	const placeActions = actions.filter((a) => a.kind === "place");
+	const posted = new Set<number>();
 	let placeIdx = 0;
 
 	for (const r of result.results) {
-		if (r.inner.case === "placeOrderResult" && r.inner.value.posted?.orderId) {
-			const action = placeActions[placeIdx];
-			if (action && action.kind === "place") {
-				orders.push({
-					orderId: r.inner.value.posted.orderId,
-					side: action.side === Side.Bid ? "bid" : "ask",
-					price: new Decimal(action.price as Decimal.Value),
-					size: new Decimal(action.size as Decimal.Value),
-				});
-			}
-			placeIdx++;
+		if (r.inner.case !== "placeOrderResult") continue;
+		const details = placeDetails(placeActions[placeIdx]);
+		const orderId = r.inner.value.posted?.orderId;
+		if (details && orderId) {
+			placed.push({ orderId, ...details });
+			posted.add(placeIdx);
+		}
+		placeIdx++;
+	}
+	const unposted = placeActions
+		.filter((_, idx) => !posted.has(idx))
+		.flatMap(unrestedPlace);
+	return { placed, unposted };
+}
+
+// Pack action groups into chunks of at most MAX_ATOMIC_ACTIONS
+// A group (e.g. cancel + replacement place) is never split across chunks
+function packChunks(groups: UserAtomicSubaction[][]): UserAtomicSubaction[][] {
+	const chunks: UserAtomicSubaction[][] = [];
+	let current: UserAtomicSubaction[] = [];
+
+	for (const group of groups) {
+		if (current.length + group.length > MAX_ATOMIC_ACTIONS) {
+			if (current.length > 0) chunks.push(current);
+			current = [];
 		}
+		current.push(...group);
 	}
-	return orders;
+	if (current.length > 0) chunks.push(current);
+
+	return chunks;
 }
 
 // Execute atomic operations in chunks of MAX_ATOMIC_ACTIONS
+// Never throws for exchange errors: failed chunks are reported in the outcome
 async function executeAtomic(
 	user: NordUser,
-	actions: UserAtomicSubaction[],
-): Promise<CachedOrder[]> {
-	if (actions.length === 0) return [];
-
-	const allOrders: CachedOrder[] = [];
-	const totalChunks = Math.ceil(actions.length / MAX_ATOMIC_ACTIONS);
+	groups: UserAtomicSubaction[][],
+	limiter: ActionRateLimiter | null,
+): Promise<AtomicOutcome> {
+	const chunks = packChunks(groups.filter((g) => g.length > 0));
+	const outcome: AtomicOutcome = {
+		placed: [],
+		unposted: [],
+		cancelled: [],
+		failures: [],
+	};
+	if (chunks.length === 0) return outcome;
 
-	for (let i = 0; i < actions.length; i += MAX_ATOMIC_ACTIONS) {
-		const chunkIdx = Math.floor(i / MAX_ATOMIC_ACTIONS) + 1;
-		const chunk = actions.slice(i, i + MAX_ATOMIC_ACTIONS);
+	for (const [idx, chunk] of chunks.entries()) {
+		const label = `[${idx + 1}/${chunks.length}]`;
+		log.info(`ATOMIC ${label}: ${chunk.map(formatAction).join(" ")}`);
 
-		log.info(
-			`ATOMIC [${chunkIdx}/${totalChunks}]: ${chunk.map(formatAction).join(" ")}`,
-		);
+		const sent = await sendChunk(user, chunk, label, limiter);
+		if ("failure" in sent) {
+			outcome.failures.push(sent.failure);
+			if (sent.failure.kind === "rejected") {
+				outcome.unposted.push(...rejectedPlaces(chunk, sent.failure.message));
+				continue;
+			}
+			// Exchange unreachable or in an unknown state: leave the rest unsent
+			for (const rest of chunks.slice(idx + 1)) {
+				outcome.failures.push(
+					chunkFailure(rest, sent.failure.kind, sent.failure.message, 0),
+				);
+			}
+			break;
+		}
 
-		const result = (await user.atomic(chunk)) as AtomicResult;
-		const placed = extractPlacedOrders(result, chunk);
-		allOrders.push(...placed);
+		const { placed, unposted } = extractPlacedOrders(sent.result, chunk);
+		outcome.placed.push(...placed);
+		outcome.unposted.push(...unposted);
+		outcome.cancelled.push(...cancelIds(chunk));
 
 		if (placed.length > 0) {
 			log.debug(`ATOMIC: placed [${placed.map((o) => o.orderId).join(", ")}]`);
 		}
 	}
 
-	return allOrders;
+	return outcome;
 }
 
 // Build place action from quote
@@ -123,7 +352,7 @@ function buildPlaceAction(marketId: number, quote: Quote): UserAtomicSubaction {
 	return action;
 }
 
-interface PlaceOptions {
+export interface PlaceOptions {
 	fillMode?: FillMode;
 	isReduceOnly?: boolean;
 }
@@ -160,60 +389,109 @@ function orderMatchesQuote(order: CachedOrder, quote: Quote): boolean {
 	);
 }
 
+// Sort orders by distance from the touch (bids: highest first, asks: lowest first)
+export function sortByLevel(orders: CachedOrder[]): CachedOrder[] {
+	return orders.slice().sort((a, b) => {
+		const cmp = a.price.cmp(b.price);
+		return a.side === "bid" ? -cmp : cmp;
+	});
+}
+
 // Update quotes: only cancel/place if changed
+// Orders matching a quote are kept; remaining orders are paired with
+// unmatched quotes per side and level, so each replacement is a cancel+place
+// within the same atomic chunk
 export async function updateQuotes(
 	user: NordUser,
 	marketId: number,
 	currentOrders: CachedOrder[],
 	newQuotes: Quote[],
 	options?: PlaceOptions,
-): Promise<CachedOrder[]> {
+	limiter: ActionRateLimiter | null = null,
+): Promise<QuoteUpdateResult> {
 	const keptOrders: CachedOrder[] = [];
-	const ordersToCancel: CachedOrder[] = [];
-	const quotesToPlace: Quote[] = [];
+	const unmatchedQuotes: Quote[] = [];
+	let remaining = currentOrders.slice();
 
-	// For each new quote, check if matching order exists
+	// For each new quote, check if matching order exists (each order used once)
 	for (const quote of newQuotes) {
-		const matchingOrder = currentOrders.find((o) =>
-			orderMatchesQuote(o, quote),
-		);
+		const matchingOrder = remaining.find((o) => orderMatchesQuote(o, quote));
 		if (matchingOrder) {
 			keptOrders.push(matchingOrder);
+			remaining = remaining.filter((o) => o !== matchingOrder);
 		} else {
-			quotesToPlace.push(quote);
+			unmatchedQuotes.push(quote);
 		}
 	}
 
-	// Cancel orders that don't match any new quote
-	for (const order of currentOrders) {
-		if (!keptOrders.includes(order)) {
-			ordersToCancel.push(order);
-		}
+	// Skip if nothing to do
+	if (remaining.length === 0 && unmatchedQuotes.length === 0) {
+		return {
+			orders: currentOrders,
+			placed: [],
+			cancelled: [],
+			unposted: [],
+			failures: [],
+		};
 	}
 
-	// Skip if nothing to do
-	if (ordersToCancel.length === 0 && quotesToPlace.length === 0) {
-		return currentOrders;
+	// Pair leftover orders with unmatched quotes on the same side, by level
+	const replacements: Array<{ order: CachedOrder; quote: Quote }> = [];
+	const ordersToCancel: CachedOrder[] = [];
+	const quotesToPlace: Quote[] = [];
+
+	for (const side of ["bid", "ask"] as const) {
+		const sideOrders = sortByLevel(remaining.filter((o) => o.side === side));
+		const sideQuotes = unmatchedQuotes
+			.filter((q) => q.side === side)
+			.sort((a, b) => a.level - b.level);
+		const pairs = Math.min(sideOrders.length, sideQuotes.length);
+
+		for (let i = 0; i < pairs; i++) {
+			replacements.push({ order: sideOrders[i], quote: sideQuotes[i] });
+		}
+		ordersToCancel.push(...sideOrders.slice(pairs));
+		quotesToPlace.push(...sideQuotes.slice(pairs));
 	}
+	replacements.sort((a, b) => a.quote.level - b.quote.level);
 
-	// Build actions: cancels first, then places
-	const actions: UserAtomicSubaction[] = [
-		...ordersToCancel.map((o) => buildCancelAction(o.orderId)),
-		...quotesToPlace.map((q) =>
+	// Build action groups: stale cancels first, then replacements level by
+	// level, then new levels
+	const groups: UserAtomicSubaction[][] = [
+		...ordersToCancel.map((o) => [buildCancelAction(o.orderId)]),
+		...replacements.map(({ order, quote }) => [
+			buildCancelAction(order.orderId),
+			buildPlaceActionWithOptions(marketId, quote, options),
+		]),
+		...quotesToPlace.map((q) => [
 			buildPlaceActionWithOptions(marketId, q, options),
-		),
+		]),
 	];
 
-	const placedOrders = await executeAtomic(user, actions);
-	return [...keptOrders, ...placedOrders];
+	const outcome = await executeAtomic(user, groups, limiter);
+	// Orders whose cancel failed are still resting
+	const cancelled = new Set(outcome.cancelled);
+	const stillResting = [
+		...ordersToCancel,
+		...replacements.map((r) => r.order),
+	].filter((o) => !cancelled.has(o.orderId));
+	return {
+		orders: [...keptOrders, ...stillResting, ...outcome.placed],
+		placed: outcome.placed,
+		cancelled: outcome.cancelled,
+		unposted: outcome.unposted,
+		failures: outcome.failures,
+	};
 }
 
 // Cancel orders
 export async function cancelOrders(
 	user: NordUser,
 	orders: CachedOrder[],
-): Promise<void> {
-	if (orders.length === 0) return;
-	const actions = orders.map((o) => buildCancelAction(o.orderId));
-	await executeAtomic(user, actions);
+	limiter: ActionRateLimiter | null = null,
+): Promise<CancelResult> {
+	if (orders.length === 0) return { cancelled: [], failures: [] };
+	const groups = orders.map((o) => [buildCancelAction(o.orderId)]);
+	const { cancelled, failures } = await executeAtomic(user, groups, limiter);
+	return { cancelled, failures };
 }
@@ -0,0 +1,187 @@
+// Token-bucket limiter for order actions, shared by every market on the account
+// tokens refill at the current rate up to burst; one token per atomic action
+// Waiters are served cancels first, then places, FIFO within each priority
+// Adaptive: a rate-limit signal halves the rate (floor minRateFraction * base)
+// and empties the bucket; each quiet recoveryMs restores a quarter of the base rate
+
+import { log } from "../utils/logger.js";
+
+const RECOVERY_STEP = 0.25; // Fraction of the base rate restored per quiet recoveryMs
+
+export type ActionPriority = "cancel" | "place";
+
+export interface RateLimiterConfig {
+	readonly actionsPerSecond: number; // Base refill rate
+	readonly burst: number; // Bucket size
+	readonly minRateFraction: number; // Floor for adaptive slowdown
+	readonly recoveryMs: number; // Quiet time per recovery step
+}
+
+export interface RateLimiterStats {
+	queued: number;
+	queuedCancels: number;
+	queuedPlaces: number;
+	maxQueueDepth: number;
+	delayed: number; // Requests that had to wait
+	rateLimited: number; // Rate-limit signals from the exchange
+	currentRate: number; // Actions per second after slowdown
+	baseRate: number;
+}
+
+export const DEFAULT_RATE_LIMITER_CONFIG: RateLimiterConfig = {
+	actionsPerSecond: 20,
+	burst: 20,
+	minRateFraction: 0.1,
+	recoveryMs: 10_000,
+};
+
+// Error message for settings the bucket cannot work with, null if valid
+export function validateRateLimiterConfig(
+	config: RateLimiterConfig,
+): string | null {
+	if (!(config.actionsPerSecond > 0)) {
+		return `Order rate limit must be above 0 (got ${config.actionsPerSecond})`;
+	}
+	if (!(config.burst >= 1)) {
+		return `Order rate burst must be at least 1 (got ${config.burst})`;
+	}
+	return null;
+}
+
+interface Waiter {
+	cost: number;
+	resolve: () => void;
+}
+
+export class ActionRateLimiter {
+	private tokens: number;
+	private rate: number;
+	private lastRefillAt = Date.now();
+	private lastSignalAt = 0;
+	private lastRecoveryAt = 0;
+	private queues: Record<ActionPriority, Waiter[]> = { cancel: [], place: [] };
+	private timer: NodeJS.Timeout | null = null;
+	private stats = { maxQueueDepth: 0, delayed: 0, rateLimited: 0 };
+
+	private readonly config: RateLimiterConfig;
+
+	constructor(config: Partial<RateLimiterConfig> = {}) {
+		this.config = { ...DEFAULT_RATE_LIMITER_CONFIG, ...config };
+		const invalid = validateRateLimiterConfig(this.config);
+		if (invalid) {
+			throw new Error(invalid);
+		}
+		this.tokens = this.config.burst;
+		this.rate = this.config.actionsPerSecond;
+	}
+
+	// Resolves once cost tokens are taken (cost is capped at burst)
+	acquire(cost: number, priority: ActionPriority): Promise<void> {
+		const waiter = { cost: Math.min(cost, this.config.burst) };
+		this.refill(Date.now());
+		if (this.queued() === 0 && this.tokens >= waiter.cost) {
+			this.tokens -= waiter.cost;
+			return Promise.resolve();
+		}
+
+		this.stats.delayed++;
+		return new Promise((resolve) => {
+			this.queues[priority].push({ ...waiter, resolve });
+			this.stats.maxQueueDepth = Math.max(
+				this.stats.maxQueueDepth,
+				this.queued(),
+			);
+			// The pending wake-up was timed for the previous head of the queue
+			if (this.timer) {
+				clearTimeout(this.timer);
+				this.timer = null;
+			}
+			this.drain();
+		});
+	}
+
+	// Exchange reported rate limiting: slow down and let the bucket refill
+	onRateLimited(): void {
+		const now = Date.now();
+		this.refill(now);
+		this.stats.rateLimited++;
+		this.lastSignalAt = now;
+		this.lastRecoveryAt = now;
+		this.tokens = 0;
+
+		const floor = this.config.actionsPerSecond * this.config.minRateFraction;
+		const slowed = Math.max(floor, this.rate / 2);
+		if (slowed < this.rate) {
+			log.warn(
+				`Rate limited by exchange: order actions ${this.rate.toFixed(1)}/s → ${slowed.toFixed(1)}/s`,
+			);
+			this.rate = slowed;
+		}
+	}
+
+	getStats(): RateLimiterStats {
+		this.refill(Date.now());
+		return {
+			queued: this.queued(),
+			queuedCancels: this.queues.cancel.length,
+			queuedPlaces: this.queues.place.length,
+			...this.stats,
+			currentRate: this.rate,
+			baseRate: this.config.actionsPerSecond,
+		};
+	}
+
+	private queued(): number {
+		return this.queues.cancel.length + this.queues.place.length;
+	}
+
+	// Credit the elapsed time at the rate it ran at, then apply any recovery
+	private refill(now: number): void {
+		const elapsed = (now - this.lastRefillAt) / 1000;
+		this.tokens = Math.min(
+			this.config.burst,
+			this.tokens + elapsed * this.rate,
+		);
+		this.lastRefillAt = now;
+		this.recover(now);
+	}
+
+	private recover(now: number): void {
+		const base = this.config.actionsPerSecond;
+		if (this.rate >= base || this.lastSignalAt === 0) return;
+		while (
+			this.rate < base &&
+			now - this.lastRecoveryAt >= this.config.recoveryMs
+		) {
+			this.lastRecoveryAt += this.config.recoveryMs;
+			this.rate = Math.min(base, this.rate + base * RECOVERY_STEP);
+			if (this.rate >= base) {
+				log.info(`Order action rate restored to ${base.toFixed(1)}/s`);
+			}
+		}
+	}
+
+	private drain(): void {
+		if (this.timer) return;
+		this.refill(Date.now());
+
+		for (;;) {
+			const queue =
+				this.queues.cancel.length > 0 ? this.queues.cancel : this.queues.place;
+			const next = queue[0];
+			if (!next) return;
+
+			if (this.tokens < next.cost) {
+				const waitMs = ((next.cost - this.tokens) / this.rate) * 1000;
+				this.timer = setTimeout(() => {
+					this.timer = null;
+					this.drain();
+				}, Math.ceil(waitMs));
+				return;
+			}
+			this.tokens -= next.cost;
+			queue.shift();
+			next.resolve();
+		}
+	}
+}
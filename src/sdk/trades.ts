@@ -0,0 +1,179 @@
+import type { Nord } from "@n1xyz/nord-ts";
+import { log } from "../utils/logger.js";
+
+const RECONNECT_DELAY_MS = 3000;
+const DEFAULT_FLOW_WINDOW_MS = 60_000;
+
+// Public trade on the market
+export interface TradeEvent {
+	side: "buy" | "sell"; // Taker side
+	price: number;
+	size: number;
+	time: number; // Local receive time (Unix ms)
+}
+
+// Rolling taker flow over the aggregation window
+export interface TradeFlow {
+	trades: number;
+	volume: number; // Base size
+	notional: number; // Quote (USD) value
+	buyVolume: number;
+	sellVolume: number;
+	imbalance: number; // (buy - sell) / (buy + sell), 0 without trades
+	vwap: number | null;
+	windowMs: number;
+}
+
+export type TradeCallback = (trade: TradeEvent) => void;
+
+// Raw trades message (SDK type is untyped for this stream)
+interface RawTradesUpdate {
+	trades?: Array<{ side: string; price: number; size: number }>;
+}
+
+export class ZoTradesStream {
+	private subscription: ReturnType<Nord["subscribeTrades"]> | null = null;
+	private window: TradeEvent[] = []; // Oldest first, pruned to windowMs
+	private isClosing = false;
+	private reconnectTimeout: NodeJS.Timeout | null = null;
+
+	// Public callback - can be set after construction
+	onTrade: TradeCallback | null = null;
+
+	constructor(
+		private readonly nord: Nord,
+		private readonly symbol: string,
+		private readonly windowMs: number = DEFAULT_FLOW_WINDOW_MS,
+	) {}
+
+	connect(): void {
+		if (this.subscription) return;
+
+		log.info(`Subscribing to Zo trades (${this.symbol})...`);
+		this.subscription = this.nord.subscribeTrades(this.symbol);
+		this.setupEventHandlers();
+	}
+
+	private setupEventHandlers(): void {
+		if (!this.subscription) return;
+
+		this.subscription.on("message", (data: unknown) => {
+			this.handleUpdate(data as RawTradesUpdate);
+		});
+
+		this.subscription.on("error", (err: Error) => {
+			log.error("Zo trades error:", err.message);
+		});
+
+		// SDK type doesn't include "close" event but WebSocket may emit it
+		(
+			this.subscription as unknown as {
+				on(event: "close", cb: () => void): void;
+			}
+		).on("close", () => {
+			if (!this.isClosing) {
+				log.warn("Zo trades disconnected");
+				this.subscription = null;
+				this.scheduleReconnect();
+			}
+		});
+	}
+
+	private scheduleReconnect(): void {
+		if (this.reconnectTimeout) return;
+
+		log.info(`Reconnecting to Zo trades in ${RECONNECT_DELAY_MS}ms...`);
+		this.reconnectTimeout = setTimeout(() => {
+			this.reconnectTimeout = null;
+			this.reconnect();
+		}, RECONNECT_DELAY_MS);
+	}
+
+	private reconnect(): void {
+		if (this.subscription) {
+			this.subscription.close();
+			this.subscription = null;
+		}
+
+		this.subscription = this.nord.subscribeTrades(this.symbol);
+		this.setupEventHandlers();
+
+		log.info("Zo trades reconnected");
+	}
+
+	private handleUpdate(data: RawTradesUpdate): void {
+		if (!data.trades) return;
+
+		const now = Date.now();
+		for (const t of data.trades) {
+			const price = Number(t.price);
+			const size = Number(t.size);
+			if (!Number.isFinite(price) || !Number.isFinite(size) || size <= 0) {
+				continue;
+			}
+			// side: "ask" = taker bought (hit the ask), "bid" = taker sold (hit the bid)
+			const trade: TradeEvent = {
+				side: t.side === "ask" ? "buy" : "sell",
+				price,
+				size,
+				time: now,
+			};
+			this.window.push(trade);
+			this.onTrade?.(trade);
+		}
+		this.prune(now);
+	}
+
+	private prune(now: number): void {
+		const cutoff = now - this.windowMs;
+		let expired = 0;
+		while (expired < this.window.length && this.window[expired].time < cutoff) {
+			expired++;
+		}
+		if (expired > 0) {
+			this.window.splice(0, expired);
+		}
+	}
+
+	// Volume, buy/sell imbalance and VWAP over the last windowMs
+	getFlow(): TradeFlow {
+		this.prune(Date.now());
+
+		let buyVolume = 0;
+		let sellVolume = 0;
+		let notional = 0;
+		for (const trade of this.window) {
+			if (trade.side === "buy") {
+				buyVolume += trade.size;
+			} else {
+				sellVolume += trade.size;
+			}
+			notional += trade.price * trade.size;
+		}
+		const volume = buyVolume + sellVolume;
+
+		return {
+			trades: this.window.length,
+			volume,
+			notional,
+			buyVolume,
+			sellVolume,
+			imbalance: volume > 0 ? (buyVolume - sellVolume) / volume : 0,
+			vwap: volume > 0 ? notional / volume : null,
+			windowMs: this.windowMs,
+		};
+	}
+
+	close(): void {
+		this.isClosing = true;
+		if (this.reconnectTimeout) {
+			clearTimeout(this.reconnectTimeout);
+			this.reconnectTimeout = null;
+		}
+		if (this.subscription) {
+			this.subscription.close();
+			this.subscription = null;
+		}
+		this.window = [];
+	}
+}
@@ -6,14 +6,35 @@ export interface MidPrice {
 	mid: number;
 	bid: number;
 	ask: number;
-	timestamp: number;
+	timestamp: number; // Local receive time (Unix ms)
+	eventTime?: number; // Venue event time (Unix ms), when the feed provides one
 }
 
 export type PriceCallback = (price: MidPrice) => void;
 
+// Exchanges with a top-of-book reference feed
+export type ExchangeFeedKind =
+	| "binance"
+	| "coinbase"
+	| "okx"
+	| "bybit"
+	| "kraken";
+
+// Reference price source: one exchange, a composite of several, or 01 mid only
+export type ReferenceFeedKind = ExchangeFeedKind | "composite" | "zo";
+
+// External price feed used as fair price reference
+export interface ReferenceFeed {
+	connect(): void;
+	close(): void;
+	getMidPrice(): MidPrice | null;
+	onPrice: PriceCallback | null;
+}
+
 // Quote for order placement
 export interface Quote {
 	side: "bid" | "ask";
 	price: Decimal;
 	size: Decimal;
+	level: number; // Ladder level (0 = closest to fair)
 }
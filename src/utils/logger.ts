@@ -34,6 +34,17 @@ function format(level: string, message: string, ...args: unknown[]): string {
 	return `${timestamp()} [${level}] ${message}${argStr}`;
 }
 
+// Optional extra fields appended to QUOTE logs
+export interface QuoteLogDetails {
+	market?: string; // Market symbol (multi-market runs)
+	levels?: number; // Ladder levels per side
+	skewBps?: number; // Reservation price shift from fair (bps)
+	inventoryRatio?: number; // Position relative to max inventory (-1..1)
+	bookAdjustmentBps?: number; // Fair price shift from 01 book (bps)
+	fundingSkewBps?: number; // Fair price shift from funding rate (bps)
+	unwindStage?: string; // Close-mode execution stage
+}
+
 function shouldLog(level: LogLevel): boolean {
 	return LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[minLevel];
 }
@@ -75,13 +86,42 @@ export const log = {
 		fair: number,
 		spreadBps: number,
 		mode: "normal" | "close",
+		details: QuoteLogDetails = {},
 	): void {
 		const bidStr = bid !== null ? `$${bid.toFixed(2)}` : "--";
 		const askStr = ask !== null ? `$${ask.toFixed(2)}` : "--";
+		const extras: string[] = [];
+		if (details.levels !== undefined && details.levels > 1) {
+			extras.push(`LEVELS ${details.levels}`);
+		}
+		if (details.skewBps !== undefined && details.skewBps !== 0) {
+			const sign = details.skewBps > 0 ? "+" : "";
+			const inv =
+				details.inventoryRatio !== undefined
+					? ` (INV ${(details.inventoryRatio * 100).toFixed(0)}%)`
+					: "";
+			extras.push(`SKEW ${sign}${details.skewBps.toFixed(1)}bps${inv}`);
+		}
+		if (
+			details.bookAdjustmentBps !== undefined &&
+			details.bookAdjustmentBps !== 0
+		) {
+			const sign = details.bookAdjustmentBps > 0 ? "+" : "";
+			extras.push(`BOOK ${sign}${details.bookAdjustmentBps.toFixed(1)}bps`);
+		}
+		if (details.fundingSkewBps !== undefined && details.fundingSkewBps !== 0) {
+			const sign = details.fundingSkewBps > 0 ? "+" : "";
+			extras.push(`FUNDING ${sign}${details.fundingSkewBps.toFixed(1)}bps`);
+		}
+		if (details.unwindStage) {
+			extras.push(`UNWIND ${details.unwindStage.toUpperCase()}`);
+		}
+		const extraStr = extras.length > 0 ? ` | ${extras.join(" | ")}` : "";
+		const tag = details.market ? ` [${details.market}]` : "";
 		outputFn(
 			format(
 				"INFO",
-				`QUOTE: BID ${bidStr} | ASK ${askStr} | FAIR $${fair.toFixed(2)} | SPREAD ${spreadBps}bps | ${mode.toUpperCase()}`,
+				`QUOTE${tag}: BID ${bidStr} | ASK ${askStr} | FAIR $${fair.toFixed(2)} | SPREAD ${spreadBps}bps | ${mode.toUpperCase()}${extraStr}`,
 			),
 		);
 	},
@@ -91,22 +131,41 @@ export const log = {
 		sizeUsd: number,
 		isLong: boolean,
 		isCloseMode: boolean,
+		market?: string,
 	): void {
 		const dir = isLong ? "LONG" : "SHORT";
 		const mode = isCloseMode ? " [CLOSE MODE]" : "";
+		const tag = market ? ` [${market}]` : "";
 		outputFn(
 			format(
 				"INFO",
-				`POS: ${dir} ${Math.abs(sizeBase).toFixed(6)} ($${Math.abs(sizeUsd).toFixed(2)})${mode}`,
+				`POS${tag}: ${dir} ${Math.abs(sizeBase).toFixed(6)} ($${Math.abs(sizeUsd).toFixed(2)})${mode}`,
 			),
 		);
 	},
 
-	fill(side: "buy" | "sell", price: number, size: number): void {
+	fill(
+		side: "buy" | "sell",
+		price: number,
+		size: number,
+		market?: string,
+	): void {
+		const tag = market ? ` [${market}]` : "";
 		outputFn(
 			format(
 				"INFO",
-				`FILL: ${side.toUpperCase()} ${size} @ $${price.toFixed(2)}`,
+				`FILL${tag}: ${side.toUpperCase()} ${size} @ $${price.toFixed(2)}`,
+			),
+		);
+	},
+
+	// Circuit breaker events (trip = WARN, resume = INFO)
+	breaker(event: "trip" | "resume", detail: string, market?: string): void {
+		const tag = market ? ` [${market}]` : "";
+		outputFn(
+			format(
+				event === "trip" ? "WARN" : "INFO",
+				`BREAKER${tag}: ${event.toUpperCase()} ${detail}`,
 			),
 		);
 	},
@@ -0,0 +1,43 @@
+// JSON state file - small snapshots that survive restarts
+// Writes go to a temp file first and are renamed into place, so a crash
+// mid-write never leaves a truncated snapshot behind. Saves are serialized,
+// so an interval save and a shutdown save never share the temp file
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { log } from "./logger.js";
+
+export class JsonStateStore<T> {
+	private pendingWrite: Promise<void> = Promise.resolve();
+
+	constructor(private readonly filePath: string) {}
+
+	// null if the file is missing or unreadable
+	async load(): Promise<T | null> {
+		try {
+			const raw = await readFile(this.filePath, "utf8");
+			return JSON.parse(raw) as T;
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+				log.warn(`State file ${this.filePath} unreadable, ignoring:`, err);
+			}
+			return null;
+		}
+	}
+
+	// Resolves once this snapshot is in place; later saves wait for earlier ones
+	save(data: T): Promise<void> {
+		const json = JSON.stringify(data);
+		const write = this.pendingWrite.then(() => this.write(json));
+		// A failed save must not block the ones after it
+		this.pendingWrite = write.catch(() => {});
+		return write;
+	}
+
+	private async write(json: string): Promise<void> {
+		const tmpPath = `${this.filePath}.tmp`;
+		await mkdir(dirname(this.filePath), { recursive: true });
+		await writeFile(tmpPath, json, "utf8");
+		await rename(tmpPath, this.filePath);
+	}
+}